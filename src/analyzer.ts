@@ -1,3 +1,10 @@
+import {
+    CompressionStrategy, AbbreviatedKeysStrategy, SchemaDataSeparationStrategy, ValueDictionaryStrategy,
+    DEFAULT_MIN_FILL_RATIO, MISSING_VALUE, isPlainObject, setKey, generateShortKey
+} from './strategies';
+import { countTokens, TokenizerOption } from './tokenizer';
+import { seededRandom } from './deterministic';
+
 /**
  * Analyzer helper to gather metrics about the JSON payload
  */
@@ -6,18 +13,98 @@ export interface AnalysisMetrics {
     arrayDensity: number; // Ratio of arrays to objects
     maxExampleArrayLength: number; // Max items in a single array
     nestingDepth: number;
-    repeatedKeysEstimate: number; // Rough estimate of key repetition
+    repeatedKeysEstimate: number; // Key occurrences beyond the first of each distinct key
+    distinctKeys: number;
+    keyFrequencies: KeyFrequency[]; // Most frequent keys first (at most 20)
     estimatedAbbrevSavings: number; // Bytes saved by AbbreviatedKeys
     estimatedSchemaSavings: number; // Bytes saved by SchemaSeparation
+    estimatedValueSavings: number; // Bytes saved by ValueDictionary
+    tokens?: TokenEstimates; // Only when analyze() is given a tokenizer
+}
+
+export interface AnalyzeOptions {
+    tokenizer?: TokenizerOption; // If set, estimates token savings per strategy on samples of the payload
+    strategies?: CompressionStrategy[]; // Strategies to estimate (default: schema separation, abbreviated keys, value dictionary)
+    sampleSize?: number; // Max items kept per array in a sample (default: 50)
+    samples?: number; // Samples drawn when the payload is larger than one sample (default: 3)
+}
+
+/**
+ * Token savings of one strategy, extrapolated from the samples to the whole payload
+ */
+export interface StrategyTokenEstimate {
+    strategy: string;
+    tokens: number; // Estimated output tokens
+    savedTokens: number; // Mean over the samples
+    low: number; // Lowest savings seen in a sample
+    high: number; // Highest savings seen in a sample
 }
 
-const isPlainObject = (obj: any): boolean => {
-    return obj !== null && typeof obj === 'object' && !Array.isArray(obj) && 
-           (Object.getPrototypeOf(obj) === Object.prototype || Object.getPrototypeOf(obj) === null);
-};
+export interface TokenEstimates {
+    inputTokens: number;
+    exact: boolean; // The payload fit in one sample, so every count is measured and low = high
+    samples: number;
+    strategies: StrategyTokenEstimate[];
+}
+
+export interface KeyFrequency {
+    key: string;
+    count: number;
+}
+
+const TOP_KEYS = 20;
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / Math.max(1, values.length);
 
 export class Analyzer {
-    static analyze(data: any): AnalysisMetrics {
+    static analyze(data: any, options: AnalyzeOptions = {}): AnalysisMetrics {
+        const metrics = Analyzer.measure(data);
+        if (options.tokenizer !== undefined) {
+            metrics.tokens = Analyzer.estimateTokens(data, { ...options, tokenizer: options.tokenizer }, metrics);
+        }
+        return metrics;
+    }
+
+    /**
+     * Estimates token savings per strategy. Payloads with no array longer than
+     * `sampleSize` are measured directly. Larger ones are sampled several times with
+     * different seeds; each sample's savings ratio is scaled to the whole payload
+     * by its estimated size, and the spread across samples gives the bounds.
+     */
+    static estimateTokens(data: any, options: AnalyzeOptions & { tokenizer: TokenizerOption }, metrics: AnalysisMetrics = Analyzer.measure(data)): TokenEstimates {
+        const { tokenizer, sampleSize = 50, samples = 3 } = options;
+        const strategies = options.strategies ?? [
+            new SchemaDataSeparationStrategy(),
+            new AbbreviatedKeysStrategy(),
+            new ValueDictionaryStrategy({ tokenizer })
+        ];
+
+        const exact = metrics.maxExampleArrayLength <= sampleSize;
+        const drawn = exact ? [data] : Array.from({ length: Math.max(1, samples) }, (_, i) => Analyzer.sample(data, sampleSize, i + 1));
+
+        const inputs = drawn.map(sample => countTokens(sample, tokenizer));
+        const scales = drawn.map(sample => exact ? 1 : metrics.totalBytes / Math.max(1, Analyzer.measure(sample).totalBytes));
+        const inputTokens = Math.round(mean(inputs.map((tokens, i) => tokens * scales[i])));
+
+        const estimates = strategies.map(strategy => {
+            const ratios = drawn.map((sample, i) => inputs[i] > 0 ? (inputs[i] - countTokens(strategy.compress(sample), tokenizer)) / inputs[i] : 0);
+            const savedTokens = Math.round(mean(ratios) * inputTokens);
+            return {
+                strategy: strategy.name,
+                tokens: inputTokens - savedTokens,
+                savedTokens,
+                low: Math.round(Math.min(...ratios) * inputTokens),
+                high: Math.round(Math.max(...ratios) * inputTokens)
+            };
+        });
+
+        return { inputTokens, exact, samples: drawn.length, strategies: estimates };
+    }
+
+    /**
+     * Byte-level metrics, gathered in one traversal without serializing the payload
+     */
+    private static measure(data: any): AnalysisMetrics {
         // Pre-flight check for primitives or very small objects
         if (data === null || typeof data !== 'object') {
             return {
@@ -26,8 +113,11 @@ export class Analyzer {
                 maxExampleArrayLength: 0,
                 nestingDepth: 0,
                 repeatedKeysEstimate: 0,
+                distinctKeys: 0,
+                keyFrequencies: [],
                 estimatedAbbrevSavings: 0,
-                estimatedSchemaSavings: 0
+                estimatedSchemaSavings: 0,
+                estimatedValueSavings: 0
             };
         }
 
@@ -38,9 +128,10 @@ export class Analyzer {
         let depth = 0;
 
         // Savings accumulators
-        let totalKeyLength = 0;
+        const keyCounts = new Map<string, number>();
         let totalKeysCount = 0;
         let schemaSavings = 0;
+        const stringCounts = new Map<string, number>();
 
         // Helper to check schema suitability for a single array
         const calculateArraySchemaSavings = (arr: any[]): number => {
@@ -58,8 +149,7 @@ export class Analyzer {
             for (let i = 1; i < sampleSize; i++) {
                 const item = arr[i];
                 if (!item || typeof item !== 'object' || Array.isArray(item)) {
-                    isConsistent = false;
-                    break;
+                    return 0;
                 }
                 const itemKeys = Object.keys(item);
                 if (itemKeys.length !== keyCount) {
@@ -87,7 +177,41 @@ export class Analyzer {
                 const schemaArrayOverhead = keysLen + (keyCount * 2) + 5; 
                 return Math.max(0, ((arr.length - 1) * perItemOverhead) - schemaArrayOverhead);
             }
-            return 0;
+
+            return calculateUnionSchemaSavings(arr);
+        };
+
+        // Near-uniform arrays (records with sparse optional keys) use a union schema
+        // where every absent key costs a missing-value marker in its row.
+        const calculateUnionSchemaSavings = (arr: any[]): number => {
+            const sampleSize = Math.min(arr.length, 20);
+            const unionKeys = new Set<string>();
+            let presentKeysLen = 0;
+            let presentCells = 0;
+
+            for (let i = 0; i < sampleSize; i++) {
+                const item = arr[i];
+                if (!item || typeof item !== 'object' || Array.isArray(item)) return 0;
+                for (const key of Object.keys(item)) {
+                    unionKeys.add(key);
+                    presentKeysLen += key.length;
+                    presentCells++;
+                }
+            }
+
+            if (unionKeys.size === 0) return 0;
+            const fillRatio = presentCells / (sampleSize * unionKeys.size);
+            if (fillRatio < DEFAULT_MIN_FILL_RATIO) return 0;
+
+            let unionKeysLen = 0;
+            for (const key of unionKeys) {
+                unionKeysLen += key.length;
+            }
+
+            const perItemOverhead = (presentKeysLen + presentCells * 2) / sampleSize; // avg key bytes per record
+            const perItemMissingCost = ((sampleSize * unionKeys.size - presentCells) / sampleSize) * (MISSING_VALUE.length + 3); // "$u",
+            const schemaArrayOverhead = unionKeysLen + (unionKeys.size * 2) + 5;
+            return Math.max(0, ((arr.length - 1) * perItemOverhead) - (arr.length * perItemMissingCost) - schemaArrayOverhead);
         };
 
         const traverse = (obj: any, currentDepth: number) => {
@@ -116,7 +240,7 @@ export class Analyzer {
                         first = false;
                         
                         totalKeysCount++;
-                        totalKeyLength += key.length;
+                        keyCounts.set(key, (keyCounts.get(key) || 0) + 1);
                         totalBytes += key.length + 3; // "key":
                         traverse(obj[key], currentDepth + 1);
                     }
@@ -125,6 +249,7 @@ export class Analyzer {
                 // Primitive or non-plain object (Date, etc.)
                 if (typeof obj === 'string') {
                     totalBytes += Buffer.byteLength(obj, 'utf8') + 2; // quotes
+                    stringCounts.set(obj, (stringCounts.get(obj) || 0) + 1);
                 } else if (typeof obj === 'number' || typeof obj === 'boolean') {
                     totalBytes += String(obj).length;
                 } else if (obj instanceof Date) {
@@ -146,36 +271,81 @@ export class Analyzer {
         traverse(data, 0);
 
         // Estimate Abbreviation Savings
-        // For LLM tokens, shortening keys is often a net LOSS because:
-        // 1. Common keys (metadata, id, role) are already 1 token.
-        // 2. Short keys (a, b, c) are also 1 token.
-        // 3. The mapping table 'm' adds significant token overhead.
-        // We use a much more conservative byte-per-key saving (e.g. 1.5 bytes instead of avgKeyLen - 2)
-        const tokenAwareSavingsPerKey = 1.5; 
-        
-        // Rough estimate of unique keys: usually much smaller than total keys for compressed data.
-        // Let's assume 20% distinct keys for a "compressible" workload.
-        const avgKeyLen = totalKeysCount > 0 ? totalKeyLength / totalKeysCount : 0;
-        const estimatedMapOverhead = (totalKeysCount * 0.2) * (avgKeyLen + 5);
-
-        const rawAbbrevSavings = totalKeysCount * tokenAwareSavingsPerKey;
-        const abbrevMetadataTax = 60; // Increased tax for { m: {}, d: } wrapper tokens
-        const estimatedAbbrevSavings = Math.max(0, rawAbbrevSavings - estimatedMapOverhead - abbrevMetadataTax);
+        // The most frequent keys get the shortest codes. Every occurrence saves the
+        // difference in length; every distinct key costs one "key":"code", map entry.
+        // Bytes overstate the gain for tokens (common keys are already one token);
+        // pass a tokenizer for token estimates.
+        const frequencies = [...keyCounts].sort((a, b) => b[1] - a[1]);
+        let abbrevSavings = 0;
+        frequencies.forEach(([key, count], rank) => {
+            const shortLength = generateShortKey(rank).length;
+            abbrevSavings += count * (key.length - shortLength) - (key.length + shortLength + 6);
+        });
+        const abbrevMetadataTax = '{"m":{},"d":}'.length;
+        const estimatedAbbrevSavings = Math.max(0, abbrevSavings - abbrevMetadataTax);
 
         const schemaMetadataTax = 20; // Reduced tax for { $s: [], $d: [] } as it's more token-friendly
         const finalSchemaSavings = Math.max(0, schemaSavings - schemaMetadataTax);
 
+        // Estimate Value Dictionary Savings
+        // Each repeated string is replaced by a code like "~12" and written once in the legend.
+        // Short strings are skipped: the code is about as long as the value itself.
+        const legendCodeBytes = 5;
+        let valueSavings = 0;
+        for (const [value, count] of stringCounts) {
+            if (count < 2 || value.length < 6) continue;
+            const saved = (count * (value.length + 2 - legendCodeBytes)) - (value.length + 3);
+            if (saved > 0) valueSavings += saved;
+        }
+        const valueMetadataTax = 20; // { $l: [], $v: } wrapper
+        const estimatedValueSavings = Math.max(0, valueSavings - valueMetadataTax);
+
         return {
             totalBytes,
             arrayDensity: objectCount > 0 ? arrayCount / objectCount : 0,
             maxExampleArrayLength: maxArrLen,
             nestingDepth: depth,
-            repeatedKeysEstimate: 0,
+            repeatedKeysEstimate: totalKeysCount - keyCounts.size,
+            distinctKeys: keyCounts.size,
+            keyFrequencies: frequencies.slice(0, TOP_KEYS).map(([key, count]) => ({ key, count })),
             estimatedAbbrevSavings,
-            estimatedSchemaSavings: finalSchemaSavings
+            estimatedSchemaSavings: finalSchemaSavings,
+            estimatedValueSavings
         };
     }
 
+    /**
+     * Builds a representative sample of the payload: every array longer than `maxItems`
+     * is reduced to `maxItems` evenly spaced elements, recursively. Objects keep all keys.
+     * With a `seed`, each element is picked at a random position within its step
+     * instead, so periodic data does not line up with the spacing.
+     */
+    static sample(data: any, maxItems: number = 50, seed?: number): any {
+        return Analyzer.sampleWith(data, maxItems, seed === undefined ? () => 0 : seededRandom(seed));
+    }
+
+    private static sampleWith(data: any, maxItems: number, random: () => number): any {
+        if (Array.isArray(data)) {
+            if (data.length <= maxItems) return data.map(item => Analyzer.sampleWith(item, maxItems, random));
+            const step = data.length / maxItems;
+            const sampled = new Array(maxItems);
+            for (let i = 0; i < maxItems; i++) {
+                sampled[i] = Analyzer.sampleWith(data[Math.floor((i + random()) * step)], maxItems, random);
+            }
+            return sampled;
+        }
+        if (isPlainObject(data)) {
+            const sampled: any = {};
+            for (const key in data) {
+                if (Object.prototype.hasOwnProperty.call(data, key)) {
+                    setKey(sampled, key, Analyzer.sampleWith(data[key], maxItems, random));
+                }
+            }
+            return sampled;
+        }
+        return data;
+    }
+
     /**
      * @deprecated Use analyze() scores instead. Kept for backward compatibility if needed internally.
      */
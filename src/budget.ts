@@ -0,0 +1,140 @@
+import { compilePathPattern, formatPath, rewrite, DROP } from './paths';
+import { isPlainObject } from './strategies';
+
+/**
+ * Lossy reductions applied, in order, when lossless compression does not fit `maxTokens`:
+ * - drop-fields:      remove fields matching `lowPriorityPaths`
+ * - trim-arrays:      keep the first items of long arrays and append an "…and 340 more" marker
+ *                     (not to arrays of records, where it would break the shared schema)
+ * - truncate-strings: cut long strings and append "…"
+ */
+export type ReductionStep = 'drop-fields' | 'trim-arrays' | 'truncate-strings';
+
+export const DEFAULT_REDUCTION_ORDER: ReductionStep[] = ['drop-fields', 'trim-arrays', 'truncate-strings'];
+
+// Each step is tried at progressively harsher levels until the output fits
+const ARRAY_LIMITS = [100, 50, 20, 10, 5, 3, 1];
+const STRING_LIMITS = [1000, 500, 200, 100, 50, 20];
+
+export interface BudgetOptions {
+    maxTokens: number;
+    lowPriorityPaths?: string[]; // Dotted paths with `*` wildcards, e.g. 'users.*.metadata'
+    reductionOrder?: ReductionStep[];
+}
+
+/**
+ * One thing that was removed from the data
+ */
+export interface Reduction {
+    step: ReductionStep;
+    path: string; // e.g. users[3].bio
+    removed: number; // Fields, array items or characters removed
+    detail: string;
+}
+
+export interface BudgetReport {
+    maxTokens: number;
+    losslessTokens: number; // Tokens of the best lossless output
+    finalTokens: number;
+    fits: boolean;
+    reductions: Reduction[]; // Empty when the lossless output already fits
+}
+
+export interface BudgetResult {
+    result: any;
+    report: BudgetReport;
+}
+
+/**
+ * Text appended to a trimmed array in place of the removed items. Arrays of records
+ * get no marker; their removed items are only listed in the report.
+ */
+export const moreItemsMarker = (count: number): string => `…and ${count} more`;
+
+const dropFields = (data: any, patterns: string[], reductions: Reduction[]): any => {
+    const matchers = patterns.map(compilePathPattern);
+    return rewrite(data, (value, path) => {
+        if (typeof path[path.length - 1] !== 'string' || !matchers.some(matches => matches(path))) return value;
+        reductions.push({ step: 'drop-fields', path: formatPath(path), removed: 1, detail: 'dropped low-priority field' });
+        return DROP;
+    });
+};
+
+const trimArrays = (data: any, limit: number, reductions: Reduction[]): any => {
+    return rewrite(data, (value, path) => {
+        if (!Array.isArray(value)) return value;
+        const records = value.every(isPlainObject);
+        // Replacing a single item with a marker saves nothing
+        if (value.length <= (records ? limit : limit + 1)) return value;
+        const removed = value.length - limit;
+        reductions.push({ step: 'trim-arrays', path: formatPath(path), removed, detail: `kept ${limit} of ${value.length} items` });
+        return records ? value.slice(0, limit) : [...value.slice(0, limit), moreItemsMarker(removed)];
+    });
+};
+
+const truncateStrings = (data: any, limit: number, reductions: Reduction[]): any => {
+    return rewrite(data, (value, path) => {
+        if (typeof value !== 'string' || value.length <= limit + 1) return value;
+        const removed = value.length - limit;
+        reductions.push({ step: 'truncate-strings', path: formatPath(path), removed, detail: `kept ${limit} of ${value.length} characters` });
+        return value.slice(0, limit) + '…';
+    });
+};
+
+/**
+ * The levels of a step, from mildest to harshest
+ */
+const levelsOf = (step: ReductionStep, data: any, lowPriorityPaths: string[]): ((reductions: Reduction[]) => any)[] => {
+    switch (step) {
+        case 'drop-fields':
+            return lowPriorityPaths.length ? [reductions => dropFields(data, lowPriorityPaths, reductions)] : [];
+        case 'trim-arrays':
+            return ARRAY_LIMITS.map(limit => (reductions: Reduction[]) => trimArrays(data, limit, reductions));
+        case 'truncate-strings':
+            return STRING_LIMITS.map(limit => (reductions: Reduction[]) => truncateStrings(data, limit, reductions));
+    }
+};
+
+/**
+ * Applies reductions until `measure` reports a token count within budget.
+ * `measure` compresses the (reduced) data losslessly and counts the output's tokens.
+ *
+ * Each step is tried at increasingly harsh levels on top of the previous steps and stops
+ * at the first level that fits, so the report lists only what was actually removed.
+ */
+export const reduceToBudget = (
+    data: any,
+    options: BudgetOptions,
+    measure: (data: any) => { result: any; tokens: number }
+): BudgetResult => {
+    const { maxTokens, lowPriorityPaths = [], reductionOrder = DEFAULT_REDUCTION_ORDER } = options;
+
+    let best = measure(data);
+    const losslessTokens = best.tokens;
+    const reductions: Reduction[] = [];
+    let current = data;
+
+    for (const step of reductionOrder) {
+        if (best.tokens <= maxTokens) break;
+
+        let applied: { data: any; reductions: Reduction[]; measured: { result: any; tokens: number } } | undefined;
+        for (const level of levelsOf(step, current, lowPriorityPaths)) {
+            const stepReductions: Reduction[] = [];
+            const reduced = level(stepReductions);
+            if (stepReductions.length === 0) continue;
+            applied = { data: reduced, reductions: stepReductions, measured: measure(reduced) };
+            if (applied.measured.tokens <= maxTokens) break;
+        }
+
+        if (applied) {
+            current = applied.data;
+            best = applied.measured;
+            reductions.push(...applied.reductions);
+        }
+    }
+
+    return {
+        result: best.result,
+        report: { maxTokens, losslessTokens, finalTokens: best.tokens, fits: best.tokens <= maxTokens, reductions }
+    };
+};
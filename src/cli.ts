@@ -0,0 +1,340 @@
+#!/usr/bin/env node
+import { promises as fs } from 'fs';
+import { Optimizer, OptimizerOptions } from './optimizer';
+import { Analyzer, KeyFrequency, TokenEstimates } from './analyzer';
+import { restore, TextOutputFormat } from './restore';
+import { countTokens } from './tokenizer';
+import { CompressionStrategy, AbbreviatedKeysStrategy, SchemaDataSeparationStrategy, UltraCompactStrategy, ValueDictionaryStrategy, minify } from './strategies';
+import { CsvStrategy, TsvStrategy, MarkdownTableStrategy, tableColumns } from './tabular';
+import { CompactTextStrategy } from './compact-text';
+
+/**
+ * `llm-compress`: optimize, restore, analyze and compare JSON or NDJSON from files or stdin.
+ *
+ * Exit codes: 0 success, 1 usage or input error, 2 round-trip verification failed.
+ */
+export interface CliIO {
+    stdout: (text: string) => void;
+    stderr: (text: string) => void;
+    readStdin: () => Promise<string>;
+    readFile: (path: string) => Promise<string>;
+}
+
+export const EXIT_OK = 0;
+export const EXIT_USAGE = 1;
+export const EXIT_ROUND_TRIP = 2;
+
+const USAGE = `Usage: llm-compress <command> [options] [files...]
+
+Commands:
+  optimize   Print the compressed payload (verifies the round trip)
+  restore    Print the restored data
+  analyze    Print payload metrics and estimated token savings per strategy
+  compare    Print bytes and tokens for every strategy
+
+Reads stdin when no file (or "-") is given. Input may be JSON or NDJSON (read as an array).
+
+Options:
+  --aggressive          Use UltraCompact for key-heavy payloads
+  --unsafe              Allow booleans as 1/0
+  --tokenizer <name>    Encoding or model name used to count tokens (default: cl100k_base)
+  --threshold <bytes>   Minimum size worth compressing (default: 1024)
+  --numeric             Encode number columns and arrays
+  --flatten-nested      Turn uniform nested objects into sub-schemas
+  --exhaustive          Measure every strategy with the tokenizer
+  --deterministic       Byte-identical output for equal data
+  --envelope            Wrap output as { $enc, $ver, $p }
+  --ndjson              Read input as NDJSON; optimize groups lines by shape, restore prints arrays one item per line
+  --format <format>     restore: parse text output (csv, tsv, markdown-table, compact-text)
+  --no-verify           optimize: skip the round-trip check
+  --pretty              Indent JSON output
+  --json                analyze/compare: print JSON instead of a table
+  -h, --help            Show this help
+`;
+
+/**
+ * Usage and input errors, reported with exit code 1
+ */
+class CliError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CliError';
+    }
+}
+
+const COMMANDS = ['optimize', 'restore', 'analyze', 'compare'] as const;
+type Command = typeof COMMANDS[number];
+
+const BOOLEAN_FLAGS = ['aggressive', 'unsafe', 'numeric', 'flatten-nested', 'exhaustive', 'deterministic', 'envelope', 'ndjson', 'no-verify', 'pretty', 'json', 'help'] as const;
+const VALUE_FLAGS = ['tokenizer', 'threshold', 'format'] as const;
+const TEXT_FORMATS: TextOutputFormat[] = ['csv', 'tsv', 'markdown-table', 'compact-text'];
+
+interface ParsedArgs {
+    command?: Command;
+    files: string[];
+    flags: Set<string>;
+    values: Map<string, string>;
+}
+
+const parseArgs = (argv: string[]): ParsedArgs => {
+    const parsed: ParsedArgs = { files: [], flags: new Set(), values: new Map() };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '-h') {
+            parsed.flags.add('help');
+        } else if (arg.startsWith('--')) {
+            const [name, inline] = arg.slice(2).split(/=(.*)/s, 2);
+            if ((VALUE_FLAGS as readonly string[]).includes(name)) {
+                const value = inline ?? argv[++i];
+                if (value === undefined) throw new CliError(`--${name} needs a value`);
+                parsed.values.set(name, value);
+            } else if ((BOOLEAN_FLAGS as readonly string[]).includes(name) && inline === undefined) {
+                parsed.flags.add(name);
+            } else {
+                throw new CliError(`Unknown option ${arg}`);
+            }
+        } else if (parsed.command === undefined && parsed.files.length === 0 && !parsed.flags.has('help') && arg !== '-') {
+            if (!(COMMANDS as readonly string[]).includes(arg)) throw new CliError(`Unknown command "${arg}"`);
+            parsed.command = arg as Command;
+        } else {
+            parsed.files.push(arg);
+        }
+    }
+    return parsed;
+};
+
+const toOptions = (args: ParsedArgs): OptimizerOptions => {
+    const options: OptimizerOptions = {
+        aggressive: args.flags.has('aggressive'),
+        unsafe: args.flags.has('unsafe'),
+        numeric: args.flags.has('numeric'),
+        flattenNested: args.flags.has('flatten-nested'),
+        deterministic: args.flags.has('deterministic'),
+        envelope: args.flags.has('envelope'),
+        selection: args.flags.has('exhaustive') ? 'exhaustive' : 'heuristic'
+    };
+
+    const tokenizer = args.values.get('tokenizer');
+    if (tokenizer !== undefined) options.tokenizer = tokenizer;
+
+    const threshold = args.values.get('threshold');
+    if (threshold !== undefined) {
+        const bytes = Number(threshold);
+        if (!Number.isFinite(bytes) || bytes < 0) throw new CliError(`--threshold must be a number of bytes, got "${threshold}"`);
+        options.thresholdBytes = bytes;
+    }
+    return options;
+};
+
+/**
+ * Parses JSON, or NDJSON as an array of its lines
+ */
+const parseInput = (text: string, name: string, ndjson: boolean): any => {
+    if (!ndjson) {
+        try {
+            return JSON.parse(text);
+        } catch {
+            // Fall back to NDJSON for multi-line input
+        }
+    }
+
+    const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+    if (!ndjson && lines.length < 2) throw new CliError(`${name}: not valid JSON`);
+    return lines.map((line, i) => {
+        try {
+            return JSON.parse(line);
+        } catch {
+            throw new CliError(`${name}: line ${i + 1} is not valid JSON`);
+        }
+    });
+};
+
+/**
+ * Deep equality ignoring key order. With `allowBoolInt`, 1/0 match true/false (unsafe output).
+ */
+const sameData = (a: any, b: any, allowBoolInt: boolean): boolean => {
+    if (a === b) return true;
+    if (allowBoolInt && typeof a === 'number' && typeof b === 'boolean') return a === (b ? 1 : 0);
+    if (typeof a !== 'object' || a === null || typeof b !== 'object' || b === null) return false;
+
+    if (Array.isArray(a)) {
+        return Array.isArray(b) && a.length === b.length && a.every((item, i) => sameData(item, b[i], allowBoolInt));
+    }
+    if (Array.isArray(b)) return false;
+
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length &&
+        keys.every(key => Object.prototype.hasOwnProperty.call(b, key) && sameData(a[key], b[key], allowBoolInt));
+};
+
+const byteLength = (value: any): number => Buffer.byteLength(typeof value === 'string' ? value : JSON.stringify(value), 'utf8');
+
+const pad = (rows: string[][]): string[] => {
+    const widths = rows[0].map((_, j) => Math.max(...rows.map(row => row[j].length)));
+    // Names left-aligned, numbers right-aligned
+    return rows.map(row => row.map((cell, j) => j === 0 ? cell.padEnd(widths[j]) : cell.padStart(widths[j])).join('  ').trimEnd());
+};
+
+interface StrategyRow {
+    strategy: string;
+    bytes: number;
+    tokens: number;
+    saved: number; // Share of the minified tokens saved, in percent
+    roundTrip: boolean;
+}
+
+/**
+ * Every strategy a payload can be compressed with, configured like the optimizer would
+ */
+const strategiesFor = (data: any, options: OptimizerOptions): CompressionStrategy[] => {
+    const { tokenizer, unsafe = false, numeric = false, flattenNested = false } = options;
+    const strategies: CompressionStrategy[] = [
+        minify,
+        new AbbreviatedKeysStrategy(),
+        new UltraCompactStrategy({ unsafe }),
+        new SchemaDataSeparationStrategy({ numeric, flattenNested, tokenizer }),
+        new ValueDictionaryStrategy({ tokenizer }),
+        new CompactTextStrategy()
+    ];
+    if (tableColumns(data)) strategies.push(new CsvStrategy(), new TsvStrategy(), new MarkdownTableStrategy());
+    return strategies;
+};
+
+const compare = (optimizer: Optimizer, data: any, options: OptimizerOptions): StrategyRow[] => {
+    const tokenizer = options.tokenizer ?? 'cl100k_base';
+    const baseline = countTokens(data, tokenizer);
+    const unsafe = !!options.unsafe;
+
+    const row = (strategy: string, output: any, restored: () => any): StrategyRow => {
+        const tokens = countTokens(output, tokenizer);
+        let roundTrip: boolean;
+        try {
+            roundTrip = sameData(restored(), data, unsafe);
+        } catch {
+            roundTrip = false;
+        }
+        return { strategy, bytes: byteLength(output), tokens, saved: baseline ? Math.round((1 - tokens / baseline) * 1000) / 10 : 0, roundTrip };
+    };
+
+    const rows = strategiesFor(data, options).map(strategy => {
+        const output = strategy.compress(data);
+        return row(strategy.name, output, () => strategy.decompress(output));
+    });
+
+    // The optimizer's own pick, named after the strategy recorded in its envelope
+    const chosen = optimizer.optimize(data, { ...options, envelope: true }).$enc;
+    const result = optimizer.optimize(data, options);
+    rows.push(row(`auto (${chosen})`, result, () => restore(result)));
+    return rows;
+};
+
+const formatCompare = (rows: StrategyRow[]): string => pad([
+    ['strategy', 'bytes', 'tokens', 'saved', 'round-trip'],
+    ...rows.map(row => [row.strategy, String(row.bytes), String(row.tokens), `${row.saved}%`, row.roundTrip ? 'ok' : 'FAILED'])
+]).join('\n');
+
+interface AnalysisReport {
+    [metric: string]: number | KeyFrequency[] | TokenEstimates;
+    keyFrequencies: KeyFrequency[];
+    estimates: TokenEstimates;
+}
+
+const formatAnalysis = (report: AnalysisReport): string => {
+    const { keyFrequencies, estimates, ...metrics } = report;
+    const rows = Object.keys(metrics).map(key => [key, String(metrics[key])]);
+    rows.push(['topKeys', keyFrequencies.slice(0, 5).map(({ key, count }) => `${key} (${count})`).join(', ')]);
+    for (const { strategy, savedTokens, low, high } of estimates.strategies) {
+        rows.push([`saved:${strategy}`, estimates.exact ? String(savedTokens) : `${savedTokens} (${low} to ${high})`]);
+    }
+    return pad(rows).join('\n');
+};
+
+/**
+ * Runs the CLI and returns the exit code. All I/O goes through `io` so tests can drive it.
+ */
+export async function run(argv: string[], io: CliIO = nodeIO): Promise<number> {
+    let args: ParsedArgs;
+    let options: OptimizerOptions;
+    try {
+        args = parseArgs(argv);
+        options = toOptions(args);
+    } catch (err) {
+        io.stderr(`${(err as Error).message}\n\n${USAGE}`);
+        return EXIT_USAGE;
+    }
+
+    if (args.flags.has('help')) {
+        io.stdout(USAGE);
+        return EXIT_OK;
+    }
+    if (!args.command) {
+        io.stderr(USAGE);
+        return EXIT_USAGE;
+    }
+
+    const format = args.values.get('format') as TextOutputFormat | undefined;
+    if (format !== undefined && !TEXT_FORMATS.includes(format)) {
+        io.stderr(`Unknown --format "${format}" (expected ${TEXT_FORMATS.join(', ')})\n`);
+        return EXIT_USAGE;
+    }
+
+    const optimizer = new Optimizer();
+    const indent = args.flags.has('pretty') ? 2 : undefined;
+    const multiple = args.files.length > 1;
+    let exitCode = EXIT_OK;
+
+    for (const file of args.files.length > 0 ? args.files : ['-']) {
+        const name = file === '-' ? 'stdin' : file;
+        try {
+            const text = file === '-' ? await io.readStdin() : await io.readFile(file);
+
+            if (args.command === 'restore') {
+                const restored = format !== undefined ? restore(text, { format }) : restore(parseInput(text, name, false));
+                const lines = args.flags.has('ndjson') && Array.isArray(restored) ? restored.map(item => JSON.stringify(item)) : [JSON.stringify(restored, null, indent)];
+                io.stdout(lines.join('\n') + '\n');
+                continue;
+            }
+
+            const data = parseInput(text, name, args.flags.has('ndjson'));
+            if (args.command === 'optimize') {
+                const result = args.flags.has('ndjson') ? optimizer.optimizeLines(text, options) : optimizer.optimize(data, options);
+                if (!args.flags.has('no-verify') && !sameData(restore(result), data, !!options.unsafe)) {
+                    io.stderr(`${name}: round trip failed, restored data differs from the input\n`);
+                    exitCode = EXIT_ROUND_TRIP;
+                    continue;
+                }
+                io.stdout(JSON.stringify(result, null, indent) + '\n');
+            } else if (args.command === 'analyze') {
+                const { tokens: estimates, keyFrequencies, ...metrics } = Analyzer.analyze(data, { tokenizer: options.tokenizer ?? 'cl100k_base' });
+                const report: AnalysisReport = { ...metrics, tokens: countTokens(data, options.tokenizer), keyFrequencies, estimates: estimates! };
+                io.stdout(args.flags.has('json') ? JSON.stringify(report, null, indent) + '\n' : `${multiple ? `${name}\n` : ''}${formatAnalysis(report)}\n`);
+            } else {
+                const rows = compare(optimizer, data, options);
+                if (rows.some(row => !row.roundTrip)) exitCode = EXIT_ROUND_TRIP;
+                io.stdout(args.flags.has('json') ? JSON.stringify(rows, null, indent) + '\n' : `${multiple ? `${name}\n` : ''}${formatCompare(rows)}\n`);
+            }
+        } catch (err) {
+            io.stderr(`${err instanceof CliError ? '' : `${name}: `}${(err as Error).message}\n`);
+            if (exitCode === EXIT_OK) exitCode = EXIT_USAGE;
+        }
+    }
+    return exitCode;
+}
+
+const nodeIO: CliIO = {
+    stdout: text => process.stdout.write(text),
+    stderr: text => process.stderr.write(text),
+    readStdin: async () => {
+        const chunks: Buffer[] = [];
+        for await (const chunk of process.stdin) chunks.push(Buffer.from(chunk));
+        return Buffer.concat(chunks).toString('utf8');
+    },
+    readFile: path => fs.readFile(path, 'utf8')
+};
+
+if (require.main === module) {
+    run(process.argv.slice(2)).then(code => {
+        process.exitCode = code;
+    });
+}
@@ -0,0 +1,378 @@
+import { CompressionStrategy, isPlainObject, setKey } from './strategies';
+import { tableColumns } from './tabular';
+
+/**
+ * Compact text notation (YAML/TOON-like). Objects use indentation instead of braces,
+ * safe keys and strings drop their quotes, and arrays declare their length:
+ *
+ *   name: Acme
+ *   tags[3]: red,green,blue
+ *   users[2]{id,name}:
+ *     1,Alice
+ *     2,"Smith, Bob"
+ *   config:
+ *     retries: 3
+ *   events[2]:
+ *     - [0]:
+ *     - type: click
+ *       at: 2024-06-01T10:00Z
+ *
+ * Scalars are `null`, `true`, `false`, JSON numbers, unquoted safe strings and JSON
+ * string literals for everything else. Empty objects are `{}`, empty arrays `[0]:`.
+ * The parser is strict: lengths, indentation and row widths must match exactly.
+ */
+export class CompactTextParseError extends Error {
+    constructor(message: string, public line?: number) {
+        super(line === undefined ? message : `${message} (line ${line})`);
+        this.name = 'CompactTextParseError';
+    }
+}
+
+const INDENT = '  ';
+const JSON_NUMBER = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+// Characters with a meaning in the notation, plus control characters
+const UNSAFE_CHARS = /[\u0000-\u001f"\\,[\]{}]/;
+
+const isSafe = (text: string): boolean =>
+    text !== '' && text.trim() === text && !UNSAFE_CHARS.test(text) && !text.startsWith('-');
+
+const isSafeKey = (key: string): boolean => isSafe(key) && !key.includes(':');
+
+// Values may contain a colon (URLs, times) as long as it cannot read as `key: value`
+const isSafeString = (value: string): boolean =>
+    isSafe(value) && !/:( |$)/.test(value) &&
+    value !== 'null' && value !== 'true' && value !== 'false' && !JSON_NUMBER.test(value);
+
+const isScalar = (value: any): boolean => value === null || typeof value !== 'object';
+
+const encodeKey = (key: string): string => isSafeKey(key) ? key : JSON.stringify(key);
+
+const encodeScalar = (value: any): string => {
+    if (typeof value === 'string') return isSafeString(value) ? value : JSON.stringify(value);
+    return JSON.stringify(value);
+};
+
+interface Line {
+    depth: number;
+    text: string;
+    number: number; // 1-based, for error messages
+}
+
+interface ArrayHeader {
+    count: number;
+    fields?: string[];
+    inline: string; // Text after `: `, empty when children follow on the next lines
+}
+
+/**
+ * Strategy 9: Compact Text
+ * Serializes any JSON value to the indentation-based notation above
+ */
+export class CompactTextStrategy implements CompressionStrategy {
+    name = 'compact-text';
+
+    compress(data: any): any {
+        const lines: string[] = [];
+
+        const encodeArray = (head: string, arr: any[], depth: number) => {
+            const header = `${head}[${arr.length}]`;
+            const columns = tableColumns(arr);
+            const childPad = INDENT.repeat(depth + 1);
+
+            if (arr.length > 0 && arr.every(isScalar)) {
+                lines.push(`${header}: ${arr.map(encodeScalar).join(',')}`);
+            } else if (columns) {
+                lines.push(`${header}{${columns.map(encodeKey).join(',')}}:`);
+                for (const row of arr) {
+                    lines.push(childPad + columns.map(column => encodeScalar(row[column])).join(','));
+                }
+            } else {
+                lines.push(`${header}:`);
+                for (const item of arr) encodeItem(item, depth + 1);
+            }
+        };
+
+        const encodeItem = (item: any, depth: number) => {
+            const pad = INDENT.repeat(depth);
+            if (Array.isArray(item)) {
+                encodeArray(`${pad}- `, item, depth);
+            } else if (isPlainObject(item) && Object.keys(item).length > 0) {
+                // The first field shares the item line: `- ` takes the place of its indentation
+                const start = lines.length;
+                encodeFields(item, depth + 1);
+                lines[start] = `${pad}- ${lines[start].slice(pad.length + INDENT.length)}`;
+            } else {
+                lines.push(`${pad}- ${isPlainObject(item) ? '{}' : encodeScalar(item)}`);
+            }
+        };
+
+        const encodeFields = (obj: any, depth: number) => {
+            const pad = INDENT.repeat(depth);
+            for (const key of Object.keys(obj)) {
+                const value = obj[key];
+                const head = pad + encodeKey(key);
+                if (Array.isArray(value)) {
+                    encodeArray(head, value, depth);
+                } else if (isPlainObject(value) && Object.keys(value).length > 0) {
+                    lines.push(`${head}:`);
+                    encodeFields(value, depth + 1);
+                } else {
+                    lines.push(`${head}: ${isPlainObject(value) ? '{}' : encodeScalar(value)}`);
+                }
+            }
+        };
+
+        if (Array.isArray(data)) {
+            encodeArray('', data, 0);
+        } else if (isPlainObject(data)) {
+            if (Object.keys(data).length === 0) return '{}';
+            encodeFields(data, 0);
+        } else {
+            return encodeScalar(data);
+        }
+        return lines.join('\n');
+    }
+
+    decompress(data: any): any {
+        if (typeof data !== 'string') return data;
+        return new CompactTextParser(data).parseDocument();
+    }
+}
+
+/**
+ * Strict recursive descent parser for the compact text notation
+ */
+class CompactTextParser {
+    private lines: Line[] = [];
+    private pos = 0;
+
+    constructor(text: string) {
+        text.split(/\r?\n/).forEach((raw, i) => {
+            if (raw.trim() === '') return;
+            const spaces = raw.length - raw.trimStart().length;
+            if (raw.slice(0, spaces).includes('\t') || spaces % INDENT.length !== 0) {
+                throw new CompactTextParseError('Indentation must be a multiple of two spaces', i + 1);
+            }
+            this.lines.push({ depth: spaces / INDENT.length, text: raw.slice(spaces).trimEnd(), number: i + 1 });
+        });
+    }
+
+    parseDocument(): any {
+        if (this.lines.length === 0) throw new CompactTextParseError('Empty document');
+        const first = this.lines[0];
+        if (first.depth !== 0) throw new CompactTextParseError('Unexpected indentation', first.number);
+
+        let value: any;
+        if (first.text.startsWith('[')) {
+            this.pos++;
+            value = this.parseArray(this.readHeader(first.text, first), 0);
+        } else if (this.lines.length === 1 && first.text === '{}') {
+            this.pos++;
+            value = {};
+        } else if (this.lines.length === 1 && this.isScalarLine(first.text)) {
+            this.pos++;
+            value = this.parseScalar(first.text, first);
+        } else {
+            value = this.parseFields(0);
+        }
+
+        if (this.pos < this.lines.length) {
+            throw new CompactTextParseError('Unexpected content', this.lines[this.pos].number);
+        }
+        return value;
+    }
+
+    private isScalarLine(text: string): boolean {
+        try {
+            this.parseScalar(text);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    private current(): Line | undefined {
+        return this.lines[this.pos];
+    }
+
+    private parseFields(depth: number): any {
+        const obj: any = {};
+        let count = 0;
+
+        for (let line = this.current(); line && line.depth >= depth; line = this.current()) {
+            if (line.depth > depth) throw new CompactTextParseError('Unexpected indentation', line.number);
+            this.pos++;
+
+            const { key, rest } = this.readKey(line);
+            let value: any;
+            if (rest.startsWith('[')) {
+                value = this.parseArray(this.readHeader(rest, line), depth);
+            } else if (rest === ':') {
+                value = this.parseFields(depth + 1);
+            } else if (rest.startsWith(': ')) {
+                const token = rest.slice(2);
+                value = token === '{}' ? {} : this.parseScalar(token, line);
+            } else {
+                throw new CompactTextParseError(`Expected ':' after key ${JSON.stringify(key)}`, line.number);
+            }
+            setKey(obj, key, value);
+            count++;
+        }
+
+        if (count === 0) {
+            const line = this.current() ?? this.lines[this.pos - 1];
+            throw new CompactTextParseError('Expected an indented block', line.number);
+        }
+        return obj;
+    }
+
+    private parseArray(header: ArrayHeader, depth: number): any[] {
+        const { count, fields, inline } = header;
+        const line = this.lines[this.pos - 1];
+
+        if (fields) {
+            if (inline !== '') throw new CompactTextParseError('Unexpected values after table header', line.number);
+            const rows: any[] = [];
+            for (let i = 0; i < count; i++) {
+                const row = this.expectLine(depth + 1);
+                const cells = this.splitCells(row.text, row);
+                if (cells.length !== fields.length) {
+                    throw new CompactTextParseError(`Row has ${cells.length} cells, expected ${fields.length}`, row.number);
+                }
+                const item: any = {};
+                fields.forEach((field, j) => setKey(item, field, this.parseScalar(cells[j], row)));
+                rows.push(item);
+            }
+            return rows;
+        }
+
+        if (inline !== '') {
+            const cells = this.splitCells(inline, line);
+            if (cells.length !== count) {
+                throw new CompactTextParseError(`Array has ${cells.length} items, expected ${count}`, line.number);
+            }
+            return cells.map(cell => this.parseScalar(cell, line));
+        }
+
+        const items: any[] = [];
+        for (let i = 0; i < count; i++) {
+            items.push(this.parseItem(depth + 1));
+        }
+        return items;
+    }
+
+    private parseItem(depth: number): any {
+        const line = this.expectLine(depth);
+        if (!line.text.startsWith('- ')) throw new CompactTextParseError("Expected a '- ' list item", line.number);
+
+        const rest = line.text.slice(2);
+        if (rest.startsWith('[')) return this.parseArray(this.readHeader(rest, line), depth);
+        if (rest === '{}') return {};
+        if (this.isScalarLine(rest)) return this.parseScalar(rest, line);
+
+        // An object whose first field is on the item line, the rest indented below it
+        this.pos--;
+        this.lines[this.pos] = { ...line, depth: depth + 1, text: rest };
+        return this.parseFields(depth + 1);
+    }
+
+    private expectLine(depth: number): Line {
+        const line = this.current();
+        if (!line) throw new CompactTextParseError('Unexpected end of document, more items expected');
+        if (line.depth !== depth) throw new CompactTextParseError('Unexpected indentation', line.number);
+        this.pos++;
+        return line;
+    }
+
+    private readKey(line: Line): { key: string; rest: string } {
+        const { text } = line;
+        if (text.startsWith('"')) {
+            const end = this.quotedEnd(text, 0, line);
+            return { key: this.parseQuoted(text.slice(0, end), line), rest: text.slice(end) };
+        }
+        const match = /^[^[:]*/.exec(text)!;
+        const key = match[0];
+        if (!isSafeKey(key)) throw new CompactTextParseError(`Invalid key ${JSON.stringify(key)}`, line.number);
+        return { key, rest: text.slice(key.length) };
+    }
+
+    /**
+     * Reads `[N]`, `[N]: a,b` or `[N]{field,...}:`
+     */
+    private readHeader(text: string, line: Line): ArrayHeader {
+        const match = /^\[(\d+)\]/.exec(text);
+        if (!match) throw new CompactTextParseError('Invalid array header', line.number);
+        let rest = text.slice(match[0].length);
+
+        let fields: string[] | undefined;
+        if (rest.startsWith('{')) {
+            let i = 1;
+            while (i < rest.length && rest[i] !== '}') {
+                i = rest[i] === '"' ? this.quotedEnd(rest, i, line) : i + 1;
+            }
+            if (i >= rest.length) throw new CompactTextParseError('Unterminated field list', line.number);
+            fields = this.splitCells(rest.slice(1, i), line).map(cell => {
+                if (cell.startsWith('"')) return this.parseQuoted(cell, line);
+                if (!isSafeKey(cell)) throw new CompactTextParseError(`Invalid field ${JSON.stringify(cell)}`, line.number);
+                return cell;
+            });
+            rest = rest.slice(i + 1);
+        }
+
+        if (rest === ':') return { count: Number(match[1]), fields, inline: '' };
+        if (rest.startsWith(': ') && !fields) return { count: Number(match[1]), inline: rest.slice(2) };
+        throw new CompactTextParseError("Expected ':' after array header", line.number);
+    }
+
+    /**
+     * Splits on commas outside quoted strings
+     */
+    private splitCells(text: string, line: Line): string[] {
+        const cells: string[] = [];
+        let start = 0;
+        let i = 0;
+        while (i < text.length) {
+            if (text[i] === '"') {
+                i = this.quotedEnd(text, i, line);
+            } else if (text[i] === ',') {
+                cells.push(text.slice(start, i).trim());
+                start = ++i;
+            } else {
+                i++;
+            }
+        }
+        cells.push(text.slice(start).trim());
+        return cells;
+    }
+
+    /**
+     * Index just past the closing quote of the string literal starting at `start`
+     */
+    private quotedEnd(text: string, start: number, line: Line): number {
+        for (let i = start + 1; i < text.length; i++) {
+            if (text[i] === '\\') i++;
+            else if (text[i] === '"') return i + 1;
+        }
+        throw new CompactTextParseError('Unterminated string', line.number);
+    }
+
+    private parseQuoted(token: string, line?: Line): string {
+        try {
+            const value = JSON.parse(token);
+            if (typeof value === 'string') return value;
+        } catch {
+            // Reported below
+        }
+        throw new CompactTextParseError(`Invalid string ${token}`, line?.number);
+    }
+
+    private parseScalar(token: string, line?: Line): any {
+        if (token === 'null') return null;
+        if (token === 'true') return true;
+        if (token === 'false') return false;
+        if (JSON_NUMBER.test(token)) return Number(token);
+        if (token.startsWith('"')) return this.parseQuoted(token, line);
+        if (isSafeString(token)) return token;
+        throw new CompactTextParseError(`Invalid value ${JSON.stringify(token)}`, line?.number);
+    }
+}
@@ -0,0 +1,297 @@
+import { SchemaDataSeparationStrategy, SchemaEntry, MISSING_VALUE, setKey } from './strategies';
+import { isEnvelope } from './envelope';
+import { detectFormat, restore, TextOutputFormat } from './restore';
+import { formatPath, PathSegment } from './paths';
+
+/**
+ * What an optimize() result taught the model: short keys, schemas and legend codes.
+ * Kept next to a request so the model's answer can be mapped back to the original keys.
+ */
+export class CompressionContext {
+    readonly keyMap = new Map<string, string>(); // Short key -> original key
+    readonly schemas: SchemaEntry[][] = []; // Every distinct `$s` in the payload
+    readonly legend: string[] = []; // Value dictionary entries, for `~N` codes
+    readonly knownKeys = new Set<string>(); // Every key of the original data
+
+    constructor(result: any, options: { format?: TextOutputFormat } = {}) {
+        const payload = isEnvelope(result) ? result.$p : result;
+
+        switch (detectFormat(payload)) {
+            case 'key-map':
+                for (const original of Object.keys(payload.m)) this.keyMap.set(payload.m[original], original);
+                break;
+            case 'value-dictionary':
+                this.legend.push(...payload.$l);
+                break;
+            case 'schema-data-separation':
+                this.collectSchemas(payload, new Set());
+                break;
+        }
+
+        this.collectKeys(restore(result, options));
+    }
+
+    private collectSchemas(obj: any, seen: Set<string>) {
+        if (!obj || typeof obj !== 'object') return;
+        if (Array.isArray(obj.$s) && Array.isArray(obj.$d)) {
+            const signature = JSON.stringify(obj.$s);
+            if (!seen.has(signature)) {
+                seen.add(signature);
+                this.schemas.push(obj.$s);
+            }
+        }
+        for (const key of Object.keys(obj)) this.collectSchemas(obj[key], seen);
+    }
+
+    private collectKeys(obj: any) {
+        if (!obj || typeof obj !== 'object') return;
+        if (!Array.isArray(obj)) {
+            for (const key of Object.keys(obj)) this.knownKeys.add(key);
+        }
+        for (const key of Object.keys(obj)) this.collectKeys(obj[key]);
+    }
+
+    /**
+     * The narrowest schema that can hold rows of this many cells
+     */
+    schemaFor(width: number): SchemaEntry[] | undefined {
+        let best: SchemaEntry[] | undefined;
+        for (const schema of this.schemas) {
+            if (schema.length >= width && (!best || schema.length < best.length)) best = schema;
+        }
+        return best;
+    }
+}
+
+export interface RestoreResponseOptions {
+    dropUnknownKeys?: boolean; // If true, keys the context does not know are removed (they are always reported)
+    mapBareRows?: boolean; // If true, a lone array of values also becomes a record when a schema fits its length
+}
+
+/**
+ * A JSON value found in the response. Partial values were cut off and closed by the parser.
+ * Inferred values are bare `$d` rows that were matched to a schema by their length alone.
+ */
+export interface RestoredBlock {
+    value: any;
+    partial: boolean;
+    inferred: boolean;
+}
+
+/**
+ * A key in the response that is neither a short key nor a key of the original data
+ */
+export interface UnknownKey {
+    block: number; // Index into `blocks`
+    path: string; // Path of the object holding the key, within the block
+    key: string;
+}
+
+export interface RestoreResponseResult {
+    blocks: RestoredBlock[];
+    unknownKeys: UnknownKey[];
+}
+
+// A JSON value as found in the text, before decoding
+type FoundBlock = Omit<RestoredBlock, 'inferred'>;
+
+const FENCED_BLOCK = /```[^\n`]*\n([\s\S]*?)(?:```|$)/g;
+
+/**
+ * Closes a JSON value that was cut off, dropping an unfinished trailing member.
+ * Returns undefined when nothing sensible can be recovered.
+ */
+const repairTruncated = (fragment: string): { value: any } | undefined => {
+    const stack: string[] = [];
+    let inString = false;
+    const cuts: string[] = [];
+
+    for (let i = 0; i < fragment.length; i++) {
+        const ch = fragment[i];
+        if (inString) {
+            if (ch === '\\') i++;
+            else if (ch === '"') inString = false;
+            continue;
+        }
+        if (ch === '"') {
+            inString = true;
+        } else if (ch === '{' || ch === '[') {
+            stack.push(ch === '{' ? '}' : ']');
+        } else if (ch === '}' || ch === ']') {
+            stack.pop();
+            cuts.push(fragment.slice(0, i + 1) + stack.slice().reverse().join(''));
+        } else if (ch === ',') {
+            cuts.push(fragment.slice(0, i) + stack.slice().reverse().join(''));
+        }
+    }
+
+    // Prefer keeping the last value (closing an open string if needed), then earlier boundaries
+    const closers = stack.slice().reverse().join('');
+    const candidates = [fragment.trimEnd() + (inString ? '"' : '') + closers, ...cuts.reverse()];
+    for (const candidate of candidates) {
+        try {
+            return { value: JSON.parse(candidate) };
+        } catch {
+            // Try the next boundary
+        }
+    }
+    return undefined;
+};
+
+/**
+ * Index just past the bracket that closes the one at `start`, or -1 if the text ends first
+ */
+const matchingEnd = (text: string, start: number): number => {
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            if (ch === '\\') i++;
+            else if (ch === '"') inString = false;
+        } else if (ch === '"') {
+            inString = true;
+        } else if (ch === '{' || ch === '[') {
+            depth++;
+        } else if (ch === '}' || ch === ']') {
+            if (--depth === 0) return i + 1;
+        }
+    }
+    return -1;
+};
+
+/**
+ * Finds the JSON objects and arrays in a piece of text
+ */
+const scanJson = (text: string): FoundBlock[] => {
+    const blocks: FoundBlock[] = [];
+    let i = 0;
+    while (i < text.length) {
+        const start = text.slice(i).search(/[[{]/);
+        if (start < 0) break;
+        const from = i + start;
+        const end = matchingEnd(text, from);
+
+        if (end < 0) {
+            // A truncated answer ends in its last block; an unclosed bracket in prose does not
+            const repaired = repairTruncated(text.slice(from));
+            if (repaired) {
+                blocks.push({ value: repaired.value, partial: true });
+                break;
+            }
+            i = from + 1;
+            continue;
+        }
+        try {
+            blocks.push({ value: JSON.parse(text.slice(from, end)), partial: false });
+            i = end;
+        } catch {
+            i = from + 1;
+        }
+    }
+    return blocks;
+};
+
+/**
+ * JSON blocks in a model response: the contents of code fences if there are any,
+ * otherwise objects and arrays anywhere in the text
+ */
+const extractBlocks = (text: string): FoundBlock[] => {
+    try {
+        return [{ value: JSON.parse(text), partial: false }];
+    } catch {
+        // Not a bare JSON document
+    }
+
+    const fenced = Array.from(text.matchAll(FENCED_BLOCK), match => match[1]);
+    if (fenced.length > 0) return fenced.flatMap(scanJson);
+    return scanJson(text);
+};
+
+const isRowCell = (value: any): boolean => value === null || typeof value !== 'object' || Array.isArray(value);
+
+/**
+ * Turns echoed `$d` rows (or, with `mapBareRows`, a single, possibly partial, row) into
+ * objects using a known schema. Returns undefined when the value is not rows.
+ */
+const mapRows = (value: any, context: CompressionContext, mapBareRows: boolean): any => {
+    if (!Array.isArray(value) || value.length === 0 || context.schemas.length === 0) return undefined;
+    const decoder = new SchemaDataSeparationStrategy();
+    const pad = (row: any[], width: number) => [...row, ...Array(width - row.length).fill(MISSING_VALUE)];
+
+    if (value.every(row => Array.isArray(row) && row.length > 0 && row.every(isRowCell))) {
+        const schema = context.schemaFor(Math.max(...value.map(row => row.length)));
+        if (schema) return decoder.decompress({ $s: schema, $d: value.map(row => pad(row, schema.length)) });
+    }
+    // Prose like "the ids are [4, 6, 9]" is not a record, so a lone row needs the caller's say-so
+    if (mapBareRows && value.every(isRowCell)) {
+        const schema = context.schemaFor(value.length);
+        if (schema) return decoder.decompress({ $s: schema, $d: [pad(value, schema.length)] })[0];
+    }
+    return undefined;
+};
+
+/**
+ * Decodes one JSON value from a response: echoed payloads and `$s`/`$d` fragments decode
+ * on their own, bare rows need the context's schemas
+ */
+export const decodeBlock = (value: any, context: CompressionContext, mapBareRows = false): { value: any; inferred: boolean } => {
+    if (detectFormat(value)) return { value: restore(value), inferred: false };
+    const rows = mapRows(value, context, mapBareRows);
+    return rows === undefined ? { value, inferred: false } : { value: rows, inferred: true };
+};
+
+/**
+ * Maps a decoded value back to the original keys and legend values. Keys the context
+ * does not know are passed to `onUnknown` with the path of their object.
+ */
+export const translateValue = (
+    value: any,
+    context: CompressionContext,
+    onUnknown: (path: string, key: string) => void,
+    dropUnknownKeys = false
+): any => {
+    const translate = (value: any, path: PathSegment[]): any => {
+        if (typeof value === 'string') {
+            const match = /^~(\d+)$/.exec(value);
+            return match && Number(match[1]) < context.legend.length ? context.legend[Number(match[1])] : value;
+        }
+        if (Array.isArray(value)) return value.map((item, i) => translate(item, [...path, i]));
+        if (!value || typeof value !== 'object') return value;
+
+        const obj: any = {};
+        for (const key of Object.keys(value)) {
+            // Short keys win over original keys with the same name: echoing them is the common case
+            let original = key;
+            if (context.keyMap.has(key)) {
+                original = context.keyMap.get(key)!;
+            } else if (!context.knownKeys.has(key)) {
+                onUnknown(formatPath(path), key);
+                if (dropUnknownKeys) continue;
+            }
+            setKey(obj, original, translate(value[key], [...path, original]));
+        }
+        return obj;
+    };
+    return translate(value, []);
+};
+
+/**
+ * Restores a model response that reuses the keys, schemas or codes of a compressed payload.
+ * Handles code fences, several JSON blocks and output that was cut off mid-value.
+ */
+export function restoreResponse(text: string, context: CompressionContext, options: RestoreResponseOptions = {}): RestoreResponseResult {
+    const { dropUnknownKeys = false, mapBareRows = false } = options;
+    const unknownKeys: UnknownKey[] = [];
+
+    const blocks = extractBlocks(text).map((block, index) => {
+        const { value, inferred } = decodeBlock(block.value, context, mapBareRows);
+        return {
+            value: translateValue(value, context, (path, key) => unknownKeys.push({ block: index, path, key }), dropUnknownKeys),
+            partial: block.partial,
+            inferred
+        };
+    });
+
+    return { blocks, unknownKeys };
+}
@@ -0,0 +1,64 @@
+import { isPlainObject, setKey } from './strategies';
+
+/**
+ * Helpers for byte-stable output. Strategies assign short keys, schema columns and
+ * legend ties in traversal order, so sorting object keys up front is enough to make
+ * equal inputs compress identically. Array order is data and is never changed.
+ */
+
+const mapObjects = (data: any, orderKeys: (keys: string[]) => string[]): any => {
+    if (Array.isArray(data)) return data.map(item => mapObjects(item, orderKeys));
+    if (!isPlainObject(data)) return data;
+
+    const obj: any = {};
+    for (const key of orderKeys(Object.keys(data))) setKey(obj, key, mapObjects(data[key], orderKeys));
+    return obj;
+};
+
+/**
+ * Copy of the data with every object's keys in code-unit order
+ */
+export const canonicalize = (data: any): any => mapObjects(data, keys => keys.slice().sort());
+
+/**
+ * Small seeded PRNG (mulberry32), so permutations are reproducible
+ */
+export const seededRandom = (seed: number): () => number => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+/**
+ * Copy of the data with every object's keys shuffled (Fisher-Yates)
+ */
+export const permuteKeys = (data: any, seed: number): any => {
+    const random = seededRandom(seed);
+    return mapObjects(data, keys => {
+        const shuffled = keys.slice();
+        for (let i = shuffled.length - 1; i > 0; i--) {
+            const j = Math.floor(random() * (i + 1));
+            [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+        }
+        return shuffled;
+    });
+};
+
+export interface StabilitySettings {
+    runs?: number; // Key-order permutations to try (default: 20)
+    seed?: number; // Seed of the first permutation (default: 1)
+}
+
+/**
+ * Outcome of checkStability(): every distinct serialized output, in order of appearance
+ */
+export interface StabilityReport {
+    stable: boolean;
+    runs: number;
+    outputs: string[];
+}
@@ -0,0 +1,61 @@
+/**
+ * Self-describing envelope: records which strategy produced a payload and
+ * which format version it follows, so restore() never has to guess from shape.
+ *
+ * Shape: { $enc: 'schema-data-separation', $ver: 1, $p: <payload> }
+ */
+export interface Envelope {
+    $enc: string; // Strategy name
+    $ver: number; // Format version
+    $p: any; // Strategy output
+}
+
+/**
+ * Current envelope format version. Bump when any strategy output changes incompatibly.
+ */
+export const FORMAT_VERSION = 1;
+
+/**
+ * Base class for errors raised while decoding an envelope
+ */
+export class EnvelopeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'EnvelopeError';
+    }
+}
+
+/**
+ * Thrown in strict mode when an envelope carries a missing, unknown or mismatched version
+ */
+export class EnvelopeVersionError extends EnvelopeError {
+    constructor(public version: unknown, public expected: number = FORMAT_VERSION) {
+        super(`Unsupported envelope version ${JSON.stringify(version)} (expected ${expected})`);
+        this.name = 'EnvelopeVersionError';
+    }
+}
+
+/**
+ * Thrown in strict mode when an envelope names a strategy that is not known
+ */
+export class UnknownStrategyError extends EnvelopeError {
+    constructor(public strategy: unknown) {
+        super(`Unknown compression strategy ${JSON.stringify(strategy)}`);
+        this.name = 'UnknownStrategyError';
+    }
+}
+
+export const wrapEnvelope = (strategy: string, payload: any): Envelope => ({
+    $enc: strategy,
+    $ver: FORMAT_VERSION,
+    $p: payload
+});
+
+/**
+ * Checks for the exact envelope shape: an object with only $enc, $ver and $p
+ */
+export const isEnvelope = (data: any): data is Envelope => {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) return false;
+    const keys = Object.keys(data);
+    return keys.length === 3 && typeof data.$enc === 'string' && '$ver' in data && '$p' in data;
+};
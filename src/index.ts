@@ -1,5 +1,6 @@
 import { Optimizer, OptimizerOptions } from './optimizer';
-import { CompressionStrategy, AbbreviatedKeysStrategy, SchemaDataSeparationStrategy, UltraCompactStrategy, minify } from './strategies';
+import { StabilitySettings } from './deterministic';
+import { CompressionStrategy, AbbreviatedKeysStrategy, SchemaDataSeparationStrategy, UltraCompactStrategy, ValueDictionaryStrategy, minify } from './strategies';
 
 // Singleton instance for easy usage
 const defaultOptimizer = new Optimizer();
@@ -12,50 +13,94 @@ export function optimize(data: any, options?: OptimizerOptions) {
 }
 
 /**
- * Helper to decode data if you know the strategy used or if it follows the standard format
- * Note: Since our strategies produce different output structures (e.g. {m, d} or {$s, $d}),
- * we can auto-detect the strategy for decompression.
+ * Optimizes data to fit a token budget, reporting every lossy reduction applied
  */
-export function restore(data: any): any {
-    // Detect UltraCompact or AbbreviatedKeys format ({m: map, d: data})
-    if (data && data.m && data.d) {
-        // We don't distinguish between Abbreviated and UltraCompact in the structure easily
-        // But the decompression logic is nearly identical: reverse map 'm' and traverse 'd'.
-        // UltraCompact handles booleans specifically (input 1/0) but mapping logic is same.
-        // We can reuse one decompressor for both if we accept the 1/0 values.
+export function optimizeWithBudget(data: any, options: OptimizerOptions & { maxTokens: number }) {
+    return defaultOptimizer.optimizeWithBudget(data, options);
+}
 
-        // Let's use UltraCompact's decompressor as it's generic enough for the map pattern
-        const strat = new UltraCompactStrategy();
-        return strat.decompress(data);
-    }
+/**
+ * Optimizes data with the `lossy` transforms enabled, returning a manifest of every changed value
+ */
+export function optimizeWithManifest(data: any, options?: OptimizerOptions) {
+    return defaultOptimizer.optimizeWithManifest(data, options);
+}
 
-    // Detect Schema Separation format anywhere in the structure
-    if (hasSchemaMarker(data)) {
-        const strat = new SchemaDataSeparationStrategy();
-        return strat.decompress(data);
-    }
+/**
+ * Optimizes data and returns model-facing instructions for reading the result
+ */
+export function optimizeWithInstructions(data: any, options?: OptimizerOptions) {
+    return defaultOptimizer.optimizeWithInstructions(data, options);
+}
 
-    // Default: return as is
-    return data;
+/**
+ * Optimizes data and keeps the context needed to restore the model's answer
+ */
+export function optimizeWithContext(data: any, options?: OptimizerOptions) {
+    return defaultOptimizer.optimizeWithContext(data, options);
 }
 
-function hasSchemaMarker(obj: any): boolean {
-    if (!obj || typeof obj !== 'object') return false;
-    if (Array.isArray(obj)) {
-        for (let i = 0; i < obj.length; i++) {
-            if (hasSchemaMarker(obj[i])) return true;
-        }
-        return false;
-    }
-    if ('$s' in obj && '$d' in obj) return true;
-    for (const k in obj) {
-        if (Object.prototype.hasOwnProperty.call(obj, k)) {
-            if (hasSchemaMarker(obj[k])) return true;
-        }
-    }
-    return false;
+/**
+ * Optimizes data and explains the result: analysis, selection rule, candidates and phase timings
+ */
+export function optimizeWithReport(data: any, options?: OptimizerOptions) {
+    return defaultOptimizer.optimizeWithReport(data, options);
+}
+
+/**
+ * Optimizes JSON Lines text (or split lines), grouping records by shape
+ */
+export function optimizeLines(input: string | string[], options?: OptimizerOptions) {
+    return defaultOptimizer.optimizeLines(input, options);
+}
+
+/**
+ * Optimizes the data with shuffled key orders and reports whether the outputs were identical
+ */
+export function checkStability(data: any, options?: OptimizerOptions, settings?: StabilitySettings) {
+    return defaultOptimizer.checkStability(data, options, settings);
 }
 
+export { restore, detectFormat } from './restore';
+export type { RestoreOptions, PayloadFormat, TextOutputFormat } from './restore';
+export { FORMAT_VERSION, EnvelopeError, EnvelopeVersionError, UnknownStrategyError } from './envelope';
+export type { Envelope } from './envelope';
+export { optimizeMessages, restoreMessages } from './messages';
+export type { ChatMessage, ContentBlock, ToolCall, MessageSavings, OptimizeMessagesResult } from './messages';
+export { moreItemsMarker } from './budget';
+export type { ReductionStep, Reduction, BudgetReport, BudgetResult } from './budget';
+export type { LossyOptions, LossyTransform, TimestampGranularity, TransformRecord, ManifestResult } from './transforms';
+export { CsvStrategy, TsvStrategy, MarkdownTableStrategy, TableParseError } from './tabular';
+export type { TextFormat } from './tabular';
+export { CompactTextStrategy, CompactTextParseError } from './compact-text';
+export { LineGroupsStrategy, LineGroupsError, LineParseError, parseLines } from './lines';
+export { describeFormat } from './instructions';
+export type { DescribeOptions, FormatDescription, InstructedResult } from './instructions';
+export { CompressionContext, restoreResponse } from './context';
+export type { RestoreResponseOptions, RestoreResponseResult, RestoredBlock, UnknownKey } from './context';
+export { StreamingRestorer, StreamRestoreError, restoreStream, createRestoreStream } from './stream-restore';
+export type { StreamRestoreOptions } from './stream-restore';
+export { StreamingCompressor, StreamCompressError, compressStream, createCompressStream } from './stream-compress';
+export type { StreamCompressOptions, StreamCompressStats, StreamInputFormat } from './stream-compress';
+export { canonicalize } from './deterministic';
+export type { StabilitySettings, StabilityReport } from './deterministic';
+export { OptimizerSession, isSessionPayload } from './session';
+export type { SessionOptions, SessionPayload, SessionState } from './session';
+export { StrategyRegistry, StrategyRegistrationError, registerStrategy, unregisterStrategy, defaultRegistry } from './registry';
+export type { StrategyDefinition } from './registry';
+export { countTokens, TokenCounter, TokenizerRegistry, UnknownTokenizerError, registerTokenizer, defaultTokenizerRegistry, CLAUDE_RATES } from './tokenizer';
+export type { TokenizerOption, UnknownModelPolicy, SupportedEncoding } from './tokenizer';
+export { TiktokenBackend, SentencePieceBackend, RatioEstimator, loadTiktokenFile, loadSentencePiece, TokenizerLoadError } from './tokenizer-backends';
+export type { TokenizerBackend, TiktokenFileOptions, RatioRates } from './tokenizer-backends';
+export type { TokenCountMode, CountOptions } from './token-count';
+export { TokenCountPool } from './token-pool';
+export type { TokenCountPoolOptions } from './token-pool';
 export { Optimizer } from './optimizer';
 export { Analyzer } from './analyzer';
-export { AbbreviatedKeysStrategy, SchemaDataSeparationStrategy, UltraCompactStrategy };
+export type { AnalysisMetrics, AnalyzeOptions, KeyFrequency, TokenEstimates, StrategyTokenEstimate } from './analyzer';
+export type { OptimizeReport, ReportedResult, CandidateReport, SelectionRule, OptimizePhase } from './report';
+export { AbbreviatedKeysStrategy, SchemaDataSeparationStrategy, UltraCompactStrategy, ValueDictionaryStrategy };
+export { MISSING_VALUE, ShortKeyAllocator } from './strategies';
+export type { CompressionStrategy, SchemaSeparationOptions, SchemaEntry, ValueDictionaryOptions, KeyMapOptions } from './strategies';
+export { NumericDecodeError } from './numeric';
+export type { RangeSegment, ColumnEncoding } from './numeric';
@@ -0,0 +1,185 @@
+import { countTokens, TokenizerOption } from './tokenizer';
+import { isEnvelope } from './envelope';
+import { isNumericEncoding } from './numeric';
+import { isEscapedKey, isPlainObject, isWindowed, MISSING_VALUE } from './strategies';
+import { detectFormat, TextOutputFormat } from './restore';
+
+/**
+ * Model-facing explanations of compressed payloads, built from the features a payload
+ * actually uses so the prompt never drifts from what the library emits.
+ */
+export interface DescribeOptions {
+    format?: TextOutputFormat; // Text output carries no marker, so name its format
+    unsafe?: boolean; // UltraCompact ran with `unsafe`, so booleans are 1/0
+    tokenizer?: TokenizerOption;
+}
+
+export interface FormatDescription {
+    strategy: string; // Strategy that produced the payload ('minify' for plain data)
+    text: string; // Empty when the payload is plain JSON and needs no explanation
+    tokens: number;
+}
+
+/**
+ * An optimize() result together with the instructions needed to read it
+ */
+export interface InstructedResult {
+    result: any;
+    instructions: FormatDescription;
+    originalTokens: number; // Input data as minified JSON
+    payloadTokens: number;
+    totalTokens: number; // Payload plus instructions
+}
+
+const walk = (data: any, visit: (value: any) => void) => {
+    visit(data);
+    if (Array.isArray(data)) {
+        for (const item of data) walk(item, visit);
+    } else if (isPlainObject(data)) {
+        for (const key of Object.keys(data)) walk(data[key], visit);
+    }
+};
+
+const quoteIfNeeded = (key: string): string => /^[\w$-]+$/.test(key) ? key : JSON.stringify(key);
+
+const describeKeyMap = (payload: any, unsafe: boolean): string[] => {
+    const shortToOriginal = new Map<string, string>();
+    for (const original of Object.keys(payload.m)) shortToOriginal.set(payload.m[original], original);
+
+    // Only keys that occur in the data need explaining
+    const used = new Set<string>();
+    walk(payload.d, value => {
+        if (!isPlainObject(value)) return;
+        for (const key of Object.keys(value)) {
+            if (shortToOriginal.has(key)) used.add(key);
+        }
+    });
+
+    const lines = ['The data is in "d" with shortened keys; "m" maps each original key to its short key.'];
+    if (used.size > 0) {
+        lines.push(`Short keys: ${Array.from(used, short => `${quoteIfNeeded(short)}=${quoteIfNeeded(shortToOriginal.get(short)!)}`).join(', ')}.`);
+    }
+    if (unsafe) lines.push('Booleans are written as 1 (true) and 0 (false).');
+    return lines;
+};
+
+const describeSchema = (payload: any): string[] => {
+    const features = { windows: false, nested: false, missing: false, columns: false, ranges: false, deltas: false, offsets: false, escapes: false };
+
+    walk(payload, value => {
+        if (typeof value === 'string') {
+            if (value === MISSING_VALUE) features.missing = true;
+            else if (/^\$\$+u$/.test(value)) features.escapes = true;
+            return;
+        }
+        if (!isPlainObject(value)) return;
+        if (isWindowed(value)) features.windows = true;
+        if (Array.isArray(value.$s) && Array.isArray(value.$d)) {
+            if (value.$s.some((entry: any) => isPlainObject(entry))) features.nested = true;
+            if (value.$n !== undefined) features.columns = true;
+        }
+        if (isNumericEncoding(value)) {
+            if (value.$r) features.ranges = true;
+            else if (value.$dl) features.deltas = true;
+            else features.offsets = true;
+        }
+        if (Object.keys(value).some(isEscapedKey)) features.escapes = true;
+    });
+
+    const lines = ['Arrays of objects are written as {"$s": keys, "$d": rows}: each row lists one object\'s values in the order of "$s".'];
+    if (features.windows) lines.push('{"$w": [...]} is one list split into blocks: decode each block and join them in order.');
+    if (features.nested) lines.push('An entry {"key": [subkeys]} in "$s" is a nested object; its value in the row is a nested row in the order of subkeys.');
+    if (features.missing) lines.push(`"${MISSING_VALUE}" in a row means the key is absent (unlike null).`);
+    if (features.columns) lines.push('"$n" encodes number columns: "d" means each value is the difference from the previous row\'s value, {"b": N} means add N to each value.');
+    if (features.ranges) lines.push('{"$r": [...]} is a list of numbers where [a, b] expands to every integer from a to b.');
+    if (features.deltas) lines.push('{"$dl": [...]} is a list of numbers: the first value, then differences from the previous value.');
+    if (features.offsets) lines.push('{"$b": N, "$o": [...]} is a list of numbers: N plus each offset.');
+    if (features.escapes) lines.push('A key or value with an extra leading "$" (like "$$s" or "$$u") is literal text with one "$" removed.');
+    return lines;
+};
+
+const describeLineGroups = (payload: any): string[] => {
+    const lines = ['The records are split into groups by shape: "$g" lists the groups, each one a list of records.'];
+    if (typeof payload.$o === 'string') lines.push('Character N of "$o" is the group (0-9, then a-z) of record N; take records from each group in turn to get the original order.');
+    else if (payload.$o) lines.push('Entry N of "$o" is the group of record N; take records from each group in turn to get the original order.');
+    else lines.push('The records are in order, group after group.');
+    return [...lines, ...describeSchema(payload.$g)];
+};
+
+const describeValueDictionary = (payload: any): string[] => {
+    let escapes = false;
+    walk(payload.$v, value => {
+        if (typeof value === 'string' && /^~~+\d+$/.test(value)) escapes = true;
+    });
+
+    const lines = ['The data is in "$v". A string "~N" stands for entry N (0-based) of the "$l" list.'];
+    if (escapes) lines.push('A string with an extra leading "~" (like "~~1") is literal text with one "~" removed.');
+    return lines;
+};
+
+const TEXT_DESCRIPTIONS: Record<TextOutputFormat, string> = {
+    'csv': 'The data is a CSV table: the first row holds the keys, every other row is one object. Unquoted numbers and true/false are typed values, empty cells are null, and quoted cells are strings.',
+    'tsv': 'The data is a tab-separated table: the first row holds the keys, every other row is one object. Unquoted numbers and true/false are typed values, empty cells are null, and quoted cells are strings.',
+    'markdown-table': 'The data is a Markdown table: the header holds the keys, every row below the separator is one object. Numbers and true/false are typed values, empty cells are null, and cells in double quotes are JSON strings.',
+    'compact-text': 'The data uses an indented notation: "key: value" lines, nested objects are indented, "key[N]: a,b" is a list of N values, "key[N]{x,y}:" is followed by N rows of objects with keys x and y, and "- " starts a list item. Values in double quotes are JSON strings.'
+};
+
+/**
+ * Explanation lines for a payload made by the named strategy; minify and registered
+ * strategies get none
+ */
+const describeStrategy = (strategy: string, payload: any, options: DescribeOptions): string[] => {
+    switch (strategy) {
+        case 'abbreviated-keys':
+            return describeKeyMap(payload, false);
+        case 'ultra-compact':
+            return describeKeyMap(payload, !!options.unsafe);
+        case 'schema-data-separation':
+            return describeSchema(payload);
+        case 'line-groups':
+            return describeLineGroups(payload);
+        case 'value-dictionary':
+            return describeValueDictionary(payload);
+        default:
+            return typeof payload === 'string' && strategy in TEXT_DESCRIPTIONS ? [TEXT_DESCRIPTIONS[strategy as TextOutputFormat]] : [];
+    }
+};
+
+/**
+ * Returns the strategy name and explanation lines for a payload. An envelope names its
+ * strategy; otherwise the format is detected from the payload's shape.
+ */
+const explain = (result: any, options: DescribeOptions): { strategy: string; lines: string[] } => {
+    if (isEnvelope(result)) {
+        const lines = describeStrategy(result.$enc, result.$p, options);
+        return { strategy: result.$enc, lines: ['The payload {"$enc", "$ver", "$p"} holds the data in "$p".', ...lines] };
+    }
+
+    if (typeof result === 'string' && options.format && TEXT_DESCRIPTIONS[options.format]) {
+        return { strategy: options.format, lines: [TEXT_DESCRIPTIONS[options.format]] };
+    }
+
+    const format = detectFormat(result);
+    switch (format) {
+        case 'key-map': {
+            const strategy = options.unsafe ? 'ultra-compact' : 'abbreviated-keys';
+            return { strategy, lines: describeStrategy(strategy, result, options) };
+        }
+        case 'schema-data-separation':
+        case 'line-groups':
+        case 'value-dictionary':
+            return { strategy: format, lines: describeStrategy(format, result, options) };
+        default:
+            // Registered strategies bring no description of their own
+            return { strategy: format ?? 'minify', lines: [] };
+    }
+};
+
+/**
+ * Explains an optimize() result for the model, listing only the features it uses
+ */
+export function describeFormat(result: any, options: DescribeOptions = {}): FormatDescription {
+    const { strategy, lines } = explain(result, options);
+    const text = lines.join(' ');
+    return { strategy, text, tokens: text ? countTokens(text, options.tokenizer) : 0 };
+}
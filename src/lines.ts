@@ -0,0 +1,167 @@
+import { CompressionStrategy, SchemaDataSeparationStrategy, SchemaSeparationOptions, DEFAULT_MIN_FILL_RATIO, isPlainObject } from './strategies';
+
+/**
+ * Thrown by parseLines() for a line that is not valid JSON
+ */
+export class LineParseError extends Error {
+    constructor(public line: number, message: string) {
+        super(`Line ${line} is not valid JSON: ${message}`);
+        this.name = 'LineParseError';
+    }
+}
+
+/**
+ * Thrown when decoding a line-groups payload whose `$o` does not fit its groups
+ */
+export class LineGroupsError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'LineGroupsError';
+    }
+}
+
+/**
+ * Parses JSON Lines text, or lines already split, into an array. Blank lines are skipped;
+ * line numbers in errors count them.
+ */
+export function parseLines(input: string | string[]): any[] {
+    const lines = typeof input === 'string' ? input.split('\n') : input;
+    const records: any[] = [];
+    lines.forEach((line, i) => {
+        if (line.trim() === '') return;
+        try {
+            records.push(JSON.parse(line));
+        } catch (err) {
+            throw new LineParseError(i + 1, (err as Error).message);
+        }
+    });
+    return records;
+}
+
+/**
+ * Checks for a line-groups payload `{ $g: [block, ...], $o?: order }`
+ */
+export const isLineGroups = (obj: any): boolean => {
+    if (!isPlainObject(obj) || !Array.isArray(obj.$g)) return false;
+    const keys = Object.keys(obj).join(',');
+    return keys === '$g' || (keys === '$g,$o' && (typeof obj.$o === 'string' || Array.isArray(obj.$o)));
+};
+
+// Up to this many groups, `$o` is a string with one base-36 digit per line
+const ORDER_RADIX = 36;
+
+interface Group {
+    keys: Set<string>; // Union of the keys of its lines
+    base: Set<string>; // Keys of its most common shape
+    cells: number; // Keys present, summed over lines
+    lines: number[];
+}
+
+/**
+ * Batch of JSON Lines (log records, events) as one schema-separated block per shape:
+ * `{ "$g": [{ "$s", "$d" }, ...], "$o": "0010201" }`. Lines are grouped by their key set;
+ * a shape whose keys contain, or are contained in, a larger group's keys joins it as
+ * optional keys while the union schema stays filled enough. `$o` lists the group of
+ * each line in the original order and is left out when the groups follow each other.
+ */
+export class LineGroupsStrategy implements CompressionStrategy {
+    name = 'line-groups';
+    private schema: SchemaDataSeparationStrategy;
+
+    constructor(private options: SchemaSeparationOptions = {}) {
+        this.schema = new SchemaDataSeparationStrategy(options);
+    }
+
+    /**
+     * Returns the group index of every record, numbering groups by their first line
+     */
+    group(records: any[]): number[] {
+        const { minFillRatio = DEFAULT_MIN_FILL_RATIO } = this.options;
+
+        // Lines with the same key set; other values (numbers, arrays) share one shape
+        const shapes = new Map<string, { keys: string[] | undefined; lines: number[] }>();
+        records.forEach((record, i) => {
+            const keys = isPlainObject(record) ? Object.keys(record).sort() : undefined;
+            const signature = keys ? JSON.stringify(keys) : '';
+            let shape = shapes.get(signature);
+            if (!shape) {
+                shape = { keys, lines: [] };
+                shapes.set(signature, shape);
+            }
+            shape.lines.push(i);
+        });
+
+        const groups: Group[] = [];
+        const others: number[] = [];
+        // Most common shapes first, so optional keys fold into the shape that has them most
+        for (const shape of Array.from(shapes.values()).sort((a, b) => b.lines.length - a.lines.length)) {
+            if (!shape.keys) {
+                others.push(...shape.lines);
+                continue;
+            }
+            const keys = shape.keys;
+            const target = groups.find(group => {
+                if (!keys.every(key => group.base.has(key)) && !Array.from(group.base).every(key => keys.includes(key))) return false;
+                const union = new Set([...group.keys, ...keys]);
+                return (group.cells + keys.length * shape.lines.length) / ((group.lines.length + shape.lines.length) * union.size) >= minFillRatio;
+            });
+            if (target) {
+                keys.forEach(key => target.keys.add(key));
+                target.cells += keys.length * shape.lines.length;
+                target.lines.push(...shape.lines);
+            } else {
+                groups.push({ keys: new Set(keys), base: new Set(keys), cells: keys.length * shape.lines.length, lines: [...shape.lines] });
+            }
+        }
+
+        const lists = groups.map(group => group.lines);
+        if (others.length > 0) lists.push(others);
+        const assignment = new Array<number>(records.length);
+        lists.map(lines => lines.sort((a, b) => a - b))
+            .sort((a, b) => a[0] - b[0])
+            .forEach((lines, index) => lines.forEach(line => { assignment[line] = index; }));
+        return assignment;
+    }
+
+    compress(data: any): any {
+        if (!Array.isArray(data) || data.length === 0) return data;
+
+        const assignment = this.group(data);
+        const groups: any[][] = [];
+        assignment.forEach((index, i) => (groups[index] = groups[index] || []).push(data[i]));
+
+        const blocks = groups.map(records => this.schema.compress(records));
+        const sequential = assignment.every((index, i) => i === 0 || index >= assignment[i - 1]);
+        if (sequential) return { $g: blocks };
+        return {
+            $g: blocks,
+            $o: groups.length <= ORDER_RADIX ? assignment.map(index => index.toString(ORDER_RADIX)).join('') : assignment
+        };
+    }
+
+    decompress(data: any): any {
+        if (!isLineGroups(data)) return data;
+
+        const groups: any[][] = data.$g.map((block: any) => {
+            const records = this.schema.decompress(block);
+            return Array.isArray(records) ? records : [records];
+        });
+        if (data.$o === undefined) return groups.flat();
+
+        const order: number[] = typeof data.$o === 'string' ? Array.from(data.$o as string, digit => parseInt(digit, ORDER_RADIX)) : data.$o;
+        const next = groups.map(() => 0);
+        order.forEach((index, i) => {
+            if (!Number.isInteger(index) || index < 0 || index >= groups.length) {
+                throw new LineGroupsError(`$o entry ${i} does not name one of the ${groups.length} groups`);
+            }
+            next[index]++;
+        });
+        const mismatch = groups.findIndex((records, index) => records.length !== next[index]);
+        if (mismatch >= 0) {
+            throw new LineGroupsError(`Group ${mismatch} has ${groups[mismatch].length} records but $o lists ${next[mismatch]}`);
+        }
+
+        next.fill(0);
+        return order.map(index => groups[index][next[index]++]);
+    }
+}
@@ -0,0 +1,215 @@
+import { isEnvelope } from './envelope';
+import { Optimizer, OptimizerOptions } from './optimizer';
+import { restore } from './restore';
+import { countTokens } from './tokenizer';
+
+/**
+ * Content block shared by OpenAI content parts and Anthropic messages
+ * (`text`, `tool_use`, `tool_result`, images, ...)
+ */
+export interface ContentBlock {
+    type: string;
+    [key: string]: any;
+}
+
+/**
+ * OpenAI style tool call attached to an assistant message
+ */
+export interface ToolCall {
+    id: string;
+    type: string;
+    function: { name: string; arguments: string };
+}
+
+/**
+ * A chat message in either OpenAI or Anthropic shape
+ */
+export interface ChatMessage {
+    role: string;
+    content?: string | ContentBlock[] | null;
+    tool_calls?: ToolCall[];
+    [key: string]: any;
+}
+
+/**
+ * Token savings for a single message (counted on the whole message as JSON)
+ */
+export interface MessageSavings {
+    index: number;
+    role: string;
+    payloads: number; // Number of JSON payloads that were rewritten
+    originalTokens: number;
+    optimizedTokens: number;
+    savedTokens: number;
+}
+
+export interface OptimizeMessagesResult {
+    messages: ChatMessage[];
+    savings: MessageSavings[];
+    totalSavedTokens: number;
+}
+
+interface PayloadHandlers {
+    text(text: string): string; // JSON embedded in a string
+    value(value: any): any; // JSON already structured (Anthropic tool_use input)
+}
+
+const defaultOptimizer = new Optimizer();
+
+/**
+ * Returns the parsed value if the text is a JSON object or array, undefined otherwise.
+ * Plain text (including bare JSON primitives like "42") is never treated as a payload.
+ */
+const parseJsonPayload = (text: string): any => {
+    const trimmed = text.trim();
+    const first = trimmed[0];
+    const last = trimmed[trimmed.length - 1];
+    if (!((first === '{' && last === '}') || (first === '[' && last === ']'))) return undefined;
+    try {
+        return JSON.parse(trimmed);
+    } catch {
+        return undefined;
+    }
+};
+
+/**
+ * Applies the handlers to every JSON payload location of a message.
+ * Returns the same message instance when nothing changed, otherwise a shallow copy.
+ */
+const mapMessagePayloads = (message: ChatMessage, handlers: PayloadHandlers): { message: ChatMessage; payloads: number } => {
+    let payloads = 0;
+
+    const mapText = (text: string): string => {
+        const next = handlers.text(text);
+        if (next !== text) payloads++;
+        return next;
+    };
+
+    const mapBlocks = (blocks: ContentBlock[]): ContentBlock[] => {
+        let changed = false;
+        const newBlocks = blocks.map(block => {
+            if (!block || typeof block !== 'object') return block;
+
+            if (block.type === 'text' && typeof block.text === 'string') {
+                const text = mapText(block.text);
+                if (text === block.text) return block;
+                changed = true;
+                return { ...block, text };
+            }
+
+            if (block.type === 'tool_use' && block.input !== undefined) {
+                const input = handlers.value(block.input);
+                if (input === block.input) return block;
+                payloads++;
+                changed = true;
+                return { ...block, input };
+            }
+
+            if (block.type === 'tool_result') {
+                const content = mapContent(block.content);
+                if (content === block.content) return block;
+                changed = true;
+                return { ...block, content };
+            }
+
+            return block;
+        });
+        return changed ? newBlocks : blocks;
+    };
+
+    const mapContent = (content: any): any => {
+        if (typeof content === 'string') return mapText(content);
+        if (Array.isArray(content)) return mapBlocks(content);
+        return content;
+    };
+
+    const result: ChatMessage = { ...message };
+    let changed = false;
+
+    const content = mapContent(message.content);
+    if (content !== message.content) {
+        result.content = content;
+        changed = true;
+    }
+
+    if (Array.isArray(message.tool_calls)) {
+        let callsChanged = false;
+        const toolCalls = message.tool_calls.map(call => {
+            if (!call || !call.function || typeof call.function.arguments !== 'string') return call;
+            const args = mapText(call.function.arguments);
+            if (args === call.function.arguments) return call;
+            callsChanged = true;
+            return { ...call, function: { ...call.function, arguments: args } };
+        });
+        if (callsChanged) {
+            result.tool_calls = toolCalls;
+            changed = true;
+        }
+    }
+
+    return { message: changed ? result : message, payloads };
+};
+
+/**
+ * Optimizes the JSON payloads found inside chat messages (OpenAI and Anthropic formats).
+ * Roles, ids and plain text are left untouched; only JSON in message content,
+ * tool results, `tool_use` inputs and `tool_calls[].function.arguments` is rewritten.
+ * Rewritten payloads are always enveloped, so restoreMessages() never decodes JSON that
+ * was left as it was, even when it looks like a compressed payload.
+ */
+export function optimizeMessages(messages: ChatMessage[], options: OptimizerOptions = {}): OptimizeMessagesResult {
+    const tokenizer = options.tokenizer ?? 'cl100k_base';
+
+    // Keeps the original unless the rewrite is cheaper. JSON that is itself an envelope is
+    // always rewritten (into an envelope around it), or restoreMessages() would unwrap it.
+    const rewrite = (value: any, cost: number): any => {
+        const optimized = defaultOptimizer.optimize(value, { ...options, envelope: true });
+        return isEnvelope(value) || countTokens(optimized, tokenizer) < cost ? optimized : undefined;
+    };
+
+    const handlers: PayloadHandlers = {
+        text: (text) => {
+            const parsed = parseJsonPayload(text);
+            if (parsed === undefined) return text;
+
+            const optimized = rewrite(parsed, countTokens(text, tokenizer));
+            return optimized === undefined ? text : JSON.stringify(optimized);
+        },
+        value: (value) => {
+            if (value === null || typeof value !== 'object') return value;
+            return rewrite(value, countTokens(value, tokenizer)) ?? value;
+        }
+    };
+
+    const savings: MessageSavings[] = [];
+    let totalSavedTokens = 0;
+
+    const optimizedMessages = messages.map((message, index) => {
+        const { message: optimized, payloads } = mapMessagePayloads(message, handlers);
+        const originalTokens = countTokens(message, tokenizer);
+        const optimizedTokens = optimized === message ? originalTokens : countTokens(optimized, tokenizer);
+        const savedTokens = originalTokens - optimizedTokens;
+
+        savings.push({ index, role: message.role, payloads, originalTokens, optimizedTokens, savedTokens });
+        totalSavedTokens += savedTokens;
+        return optimized;
+    });
+
+    return { messages: optimizedMessages, savings, totalSavedTokens };
+}
+
+/**
+ * Reverses optimizeMessages(): restores every enveloped JSON payload inside the messages.
+ * Any other content, JSON included, is returned unchanged (including its formatting).
+ */
+export function restoreMessages(messages: ChatMessage[]): ChatMessage[] {
+    const handlers: PayloadHandlers = {
+        text: (text) => {
+            const parsed = parseJsonPayload(text);
+            return isEnvelope(parsed) ? JSON.stringify(restore(parsed)) : text;
+        },
+        value: (value) => isEnvelope(value) ? restore(value) : value
+    };
+
+    return messages.map(message => mapMessagePayloads(message, handlers).message);
+}
@@ -0,0 +1,211 @@
+import { countTokens, TokenizerOption } from './tokenizer';
+
+/**
+ * Numeric sequence encodings (opt-in, used by SchemaDataSeparationStrategy with `numeric: true`):
+ * - Range:       { $r: [[1, 500], 900, [950, 940]] }  inclusive integer runs (ascending or descending) and single values
+ * - Delta:       { $dl: [1718000000123, 1000, 1000] } first value, then difference from the previous value
+ * - Base offset: { $b: 1718000000000, $o: [123, 1123] } every value is base + offset
+ */
+export type RangeSegment = number | [number, number];
+
+/**
+ * Column encodings recorded in a schema container's `$n`, keyed by column name:
+ * 'd' for delta-from-previous, { b: base } for base offset
+ */
+export type ColumnEncoding = 'd' | { b: number };
+
+// Runs shorter than this are cheaper as plain values
+const MIN_RUN_LENGTH = 3;
+
+// Most values one `$r` list may expand to; model output like [[0, 1e10]] must not exhaust memory
+export const MAX_RANGE_VALUES = 1000000;
+
+/**
+ * Thrown when a numeric encoding cannot be decoded, such as a range that is too long
+ */
+export class NumericDecodeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'NumericDecodeError';
+    }
+}
+
+const isNumberArray = (arr: any[]): boolean => {
+    for (let i = 0; i < arr.length; i++) {
+        if (typeof arr[i] !== 'number' || !Number.isFinite(arr[i])) return false;
+    }
+    return true;
+};
+
+const sameNumbers = (a: number[], b: number[] | undefined): boolean => {
+    if (!b || a.length !== b.length) return false;
+    for (let i = 0; i < a.length; i++) {
+        if (a[i] !== b[i]) return false;
+    }
+    return true;
+};
+
+const minOf = (values: number[]): number => {
+    let min = values[0];
+    for (let i = 1; i < values.length; i++) {
+        if (values[i] < min) min = values[i];
+    }
+    return min;
+};
+
+export const toDeltas = (values: number[]): number[] => {
+    const deltas = new Array(values.length);
+    for (let i = 0; i < values.length; i++) {
+        deltas[i] = i === 0 ? values[0] : values[i] - values[i - 1];
+    }
+    return deltas;
+};
+
+export const fromDeltas = (deltas: number[]): number[] => {
+    const values = new Array(deltas.length);
+    for (let i = 0; i < deltas.length; i++) {
+        values[i] = i === 0 ? deltas[0] : values[i - 1] + deltas[i];
+    }
+    return values;
+};
+
+const toRanges = (values: number[]): RangeSegment[] => {
+    const segments: RangeSegment[] = [];
+    let i = 0;
+    while (i < values.length) {
+        const start = values[i];
+        let end = i;
+        if (Number.isInteger(start) && i + 1 < values.length) {
+            const step = values[i + 1] - start;
+            if (step === 1 || step === -1) {
+                while (end + 1 < values.length && Number.isInteger(values[end + 1]) && values[end + 1] - values[end] === step) {
+                    end++;
+                }
+            }
+        }
+        if (end - i + 1 >= MIN_RUN_LENGTH) {
+            segments.push([start, values[end]]);
+            i = end + 1;
+        } else {
+            segments.push(start);
+            i++;
+        }
+    }
+    return segments;
+};
+
+const fromRanges = (segments: RangeSegment[]): number[] => {
+    let length = 0;
+    for (const segment of segments) {
+        if (Array.isArray(segment)) {
+            if (segment.length !== 2 || !Number.isSafeInteger(segment[0]) || !Number.isSafeInteger(segment[1])) {
+                throw new NumericDecodeError(`Range ${JSON.stringify(segment)} is not a pair of integers`);
+            }
+            length += Math.abs(segment[1] - segment[0]) + 1;
+        } else {
+            length++;
+        }
+        if (length > MAX_RANGE_VALUES) throw new NumericDecodeError(`Ranges expand to more than ${MAX_RANGE_VALUES} values`);
+    }
+
+    const values: number[] = [];
+    for (const segment of segments) {
+        if (Array.isArray(segment)) {
+            const [start, end] = segment;
+            const step = end >= start ? 1 : -1;
+            for (let v = start; step > 0 ? v <= end : v >= end; v += step) values.push(v);
+        } else {
+            values.push(segment);
+        }
+    }
+    return values;
+};
+
+/**
+ * Checks for the exact shape of a numeric encoding
+ */
+export const isNumericEncoding = (obj: any): boolean => {
+    if (!obj || typeof obj !== 'object' || Array.isArray(obj)) return false;
+    const keys = Object.keys(obj);
+    if (keys.length === 1 && Array.isArray(obj.$r)) {
+        return obj.$r.every((s: any) => typeof s === 'number' ||
+            (Array.isArray(s) && s.length === 2 && Number.isInteger(s[0]) && Number.isInteger(s[1])));
+    }
+    if (keys.length === 1 && Array.isArray(obj.$dl)) {
+        return isNumberArray(obj.$dl);
+    }
+    if (keys.length === 2 && typeof obj.$b === 'number' && Array.isArray(obj.$o)) {
+        return isNumberArray(obj.$o);
+    }
+    return false;
+};
+
+export const decodeNumbers = (obj: any): number[] => {
+    if (obj.$r) return fromRanges(obj.$r);
+    if (obj.$dl) return fromDeltas(obj.$dl);
+    return obj.$o.map((offset: number) => obj.$b + offset);
+};
+
+/**
+ * Returns the cheapest exact encoding of a number array by measured tokens,
+ * or the array itself when no encoding pays off or round-trips exactly
+ */
+export const encodeNumbers = (values: any[], tokenizer: TokenizerOption = 'cl100k_base'): any => {
+    if (values.length < MIN_RUN_LENGTH || !isNumberArray(values)) return values;
+
+    const candidates: any[] = [];
+
+    const ranges = toRanges(values);
+    if (ranges.length < values.length) candidates.push({ $r: ranges });
+    candidates.push({ $dl: toDeltas(values) });
+    const base = minOf(values);
+    if (base !== 0) candidates.push({ $b: base, $o: values.map(v => v - base) });
+
+    let best: any = values;
+    let bestTokens = countTokens(values, tokenizer);
+    for (const candidate of candidates) {
+        // Floats may not survive the arithmetic, so only exact round-trips qualify
+        if (!sameNumbers(values, decodeNumbers(candidate))) continue;
+        const tokens = countTokens(candidate, tokenizer);
+        if (tokens < bestTokens) {
+            best = candidate;
+            bestTokens = tokens;
+        }
+    }
+    return best;
+};
+
+/**
+ * Picks a column encoding for a `$d` column of numbers, or undefined if plain values are cheapest
+ */
+export const encodeColumn = (values: number[], tokenizer: TokenizerOption = 'cl100k_base'): { encoding: ColumnEncoding; cells: number[] } | undefined => {
+    if (values.length < MIN_RUN_LENGTH || !isNumberArray(values)) return undefined;
+
+    let best: { encoding: ColumnEncoding; cells: number[] } | undefined;
+    let bestTokens = countTokens(values, tokenizer);
+
+    const deltas = toDeltas(values);
+    if (sameNumbers(values, fromDeltas(deltas))) {
+        const tokens = countTokens(deltas, tokenizer) + 4; // `"id":"d"` entry in $n
+        if (tokens < bestTokens) {
+            best = { encoding: 'd', cells: deltas };
+            bestTokens = tokens;
+        }
+    }
+
+    const base = minOf(values);
+    const offsets = values.map(v => v - base);
+    if (base !== 0 && sameNumbers(values, offsets.map(o => base + o))) {
+        const tokens = countTokens(offsets, tokenizer) + countTokens({ b: base }, tokenizer);
+        if (tokens < bestTokens) {
+            best = { encoding: { b: base }, cells: offsets };
+        }
+    }
+
+    return best;
+};
+
+export const decodeColumn = (cells: number[], encoding: ColumnEncoding): number[] => {
+    if (encoding === 'd') return fromDeltas(cells);
+    return cells.map(offset => encoding.b + offset);
+};
@@ -1,94 +1,532 @@
-import { CompressionStrategy, AbbreviatedKeysStrategy, SchemaDataSeparationStrategy, UltraCompactStrategy, minify } from './strategies';
+import { CompressionStrategy, AbbreviatedKeysStrategy, SchemaDataSeparationStrategy, UltraCompactStrategy, ValueDictionaryStrategy, minify } from './strategies';
 import { Analyzer } from './analyzer';
-import { TokenCounter } from './tokenizer';
+import { countTokens, TokenizerOption } from './tokenizer';
+import { TokenCountMode } from './token-count';
+import { LineGroupsStrategy, parseLines } from './lines';
+import { wrapEnvelope } from './envelope';
+import { isUnambiguous, TextOutputFormat } from './restore';
+import { describeFormat, InstructedResult } from './instructions';
+import { CompressionContext } from './context';
+import { reduceToBudget, BudgetResult, ReductionStep } from './budget';
+import { CsvStrategy, TsvStrategy, MarkdownTableStrategy, tableColumns } from './tabular';
+import { CompactTextStrategy } from './compact-text';
+import { applyLossyTransforms, LossyOptions, ManifestResult } from './transforms';
+import { canonicalize, permuteKeys, StabilitySettings, StabilityReport } from './deterministic';
+import { StrategyRegistry, StrategyDefinition, defaultRegistry } from './registry';
+import { byteLength, candidateReport, newTrace, OptimizePhase, OptimizeReport, ReportedResult, SelectionRule, SelectionTrace } from './report';
 
 export interface OptimizerOptions {
     aggressive?: boolean; // Use UltraCompact (lossy for types/readability, lossless for data)
     thresholdBytes?: number; // Minimum bytes to bother compressing
     unsafe?: boolean; // If true, allows lossy optimizations like bool->int (1/0)
     validateTokenSavings?: boolean; // If true, compares input/output tokens and returns original if output is larger
-    tokenizer?: string | ((text: string) => number); // Encoding name, model name, or custom function
+    tokenizer?: TokenizerOption; // Encoding name, model name, or custom function
+    tokenCounting?: TokenCountMode; // Token validation: 'exact' counts the JSON text, 'estimate' counts leaves without serializing (default: 'exact')
+    flattenNested?: boolean; // If true, schema separation turns uniform nested objects into sub-schemas
+    numeric?: boolean; // If true, schema separation encodes number columns/arrays as deltas, offsets or ranges when it saves tokens
+    envelope?: boolean; // If true, wraps the output as { $enc, $ver, $p } so restore() knows exactly how to decode it
+    selection?: 'heuristic' | 'estimated' | 'exhaustive'; // 'estimated' picks by token savings measured on samples; 'exhaustive' runs every strategy and keeps the one with the fewest real tokens
+    timeBudgetMs?: number; // Exhaustive mode: stop trying further strategies after this many ms (default: 50)
+    sampleThresholdBytes?: number; // Exhaustive mode: payloads above this size are ranked on a sample (default: 256 KB)
+    sampleSize?: number; // Estimated and exhaustive modes: max items kept per array when sampling (default: 50)
+    maxTokens?: number; // Token budget: applies lossy reductions when lossless output is larger (see optimizeWithBudget)
+    lowPriorityPaths?: string[]; // Budget mode: fields dropped first, as dotted paths with `*` wildcards
+    reductionOrder?: ReductionStep[]; // Budget mode: order of reductions (default: drop-fields, trim-arrays, truncate-strings)
+    allowTextOutput?: boolean; // If true, the result may be compact text (or CSV/TSV/Markdown for flat records) in an envelope when that has fewer tokens
+    lossy?: LossyOptions; // Opt-in lossy value transforms (rounding, timestamps, empty fields, whitespace); see optimizeWithManifest
+    deterministic?: boolean; // If true, equal data always gives byte-identical output: object keys are sorted first and the time budget is ignored
+    keyMap?: Record<string, string>; // Pinned short keys (original -> short) for key-map output, emitted first in every `m`
 }
 
+// optimizeLines() runs the shared pipeline with line grouping as its selection step
+type PipelineOptions = OptimizerOptions & { groupLines?: boolean };
+
 export class Optimizer {
     private schemaStrat = new SchemaDataSeparationStrategy();
+    private schemaStratNested = new SchemaDataSeparationStrategy({ flattenNested: true });
     private abbrevStrat = new AbbreviatedKeysStrategy();
     private ultraStratSafe = new UltraCompactStrategy({ unsafe: false });
     private ultraStratUnsafe = new UltraCompactStrategy({ unsafe: true });
+    private valueStrat = new ValueDictionaryStrategy();
+    private compactTextStrat = new CompactTextStrategy();
+    private lineGroupsStrat = new LineGroupsStrategy();
+    private tableStrategies: CompressionStrategy[] = [new CsvStrategy(), new TsvStrategy(), new MarkdownTableStrategy()];
+
+    // Built-in strategies by name; UltraCompact defaults to safe
+    private builtins: Record<string, CompressionStrategy> = Object.fromEntries(
+        [minify, this.schemaStrat, this.lineGroupsStrat, this.abbrevStrat, this.ultraStratSafe, this.valueStrat, this.compactTextStrat, ...this.tableStrategies]
+            .map(strategy => [strategy.name, strategy])
+    );
 
-    private strategies: CompressionStrategy[] = [
-        this.schemaStrat,
-        this.ultraStratSafe,
-        this.abbrevStrat
-    ];
+    /**
+     * @param registry Strategies registered on top of the built-ins (default: the global registry shared with restore())
+     */
+    constructor(readonly registry: StrategyRegistry = defaultRegistry) {}
 
     /**
      * Automatically selects and applies the best compression strategy
      */
     optimize(data: any, options: OptimizerOptions = {}) {
+        return this.pipeline(data, options);
+    }
+
+    /**
+     * Optimizes and reports how the result came about: the analysis, the rule that
+     * picked the strategy, whether token validation reverted it, every candidate's
+     * estimated and measured savings, and the time spent in each phase
+     */
+    optimizeWithReport(data: any, options: OptimizerOptions = {}): ReportedResult {
+        const { tokenizer = 'cl100k_base' } = options;
+        const started = performance.now();
+        const trace = newTrace();
+        const result = this.pipeline(data, options, trace);
+        const totalMs = performance.now() - started;
+
+        const input = { bytes: byteLength(trace.data), tokens: countTokens(trace.data, tokenizer) };
+        // Heuristic candidates are only estimated during selection; they are measured here, off the clock
+        const estimated = trace.estimates.map(({ strategy, estimatedSavings, tokenEstimate }) => {
+            const output = strategy.compress(trace.data);
+            return { ...candidateReport(strategy.name, output, countTokens(output, tokenizer), input), estimatedSavings, tokenEstimate };
+        });
+
+        const report: OptimizeReport = {
+            metrics: trace.metrics!,
+            rule: trace.rule!,
+            selected: trace.selected!,
+            strategy: trace.strategy!,
+            reverted: trace.reverted,
+            enveloped: trace.enveloped,
+            input,
+            output: { bytes: byteLength(result), tokens: countTokens(result, tokenizer) },
+            candidates: [...estimated, ...trace.candidates],
+            timings: trace.timings,
+            totalMs
+        };
+        return { result, report };
+    }
+
+    /**
+     * The optimize() steps. With a trace, every decision and phase time is recorded.
+     */
+    private pipeline(data: any, options: PipelineOptions, trace?: SelectionTrace): any {
+        const { maxTokens } = options;
+        if (maxTokens !== undefined) {
+            return this.budgeted(data, { ...options, maxTokens }, trace).result;
+        }
+        if (options.lossy) {
+            return this.transformed(data, options, trace).result;
+        }
+        if (options.deterministic) {
+            // Restored objects come back with sorted keys; array order is kept
+            data = canonicalize(data);
+        }
+
         const {
             aggressive = false,
             thresholdBytes = 1024, // Increased default: small payloads often grow with key-map overhead
             unsafe = false,
             validateTokenSavings = true,
-            tokenizer = 'cl100k_base'
+            tokenizer = 'cl100k_base',
+            tokenCounting = 'exact',
+            flattenNested = false,
+            numeric = false,
+            envelope = false,
+            selection = 'heuristic',
+            allowTextOutput = false
         } = options;
 
-        const metrics = Analyzer.analyze(data);
-
-        // Helper to count tokens
-        const countTokens = (val: any): number => {
-            if (typeof tokenizer === 'function') {
-                return tokenizer(typeof val === 'string' ? val : JSON.stringify(val));
-            }
-            return TokenCounter.count(val, tokenizer);
+        let clock = performance.now();
+        const lap = (phase: OptimizePhase) => {
+            if (!trace) return;
+            const now = performance.now();
+            trace.timings[phase] = (trace.timings[phase] ?? 0) + now - clock;
+            clock = now;
         };
+        if (trace) Object.assign(trace, { data, reverted: false, enveloped: false, estimates: [], candidates: [] });
 
+        const metrics = Analyzer.analyze(data);
+        lap('analyze');
+
+        let strategy: CompressionStrategy;
         let result: any;
+        let rule: SelectionRule;
 
         // 1. If too small, just minify
-        if (metrics.totalBytes < thresholdBytes) {
-            result = minify.compress(data);
+        if (metrics.totalBytes < thresholdBytes || (options.groupLines && (data as any[]).length === 0)) {
+            strategy = minify;
+            rule = 'below-threshold';
+        } else if (options.groupLines) {
+            // 2. JSON Lines are grouped by shape (optimizeLines)
+            ({ strategy, result } = this.groupLines(data, options));
+            rule = 'line-groups';
+        } else if (selection === 'exhaustive') {
+            // 2a. Measure every candidate with the real tokenizer
+            ({ strategy, result } = this.selectExhaustive(data, metrics.totalBytes, options, trace));
+            rule = 'exhaustive';
+        } else if (selection === 'estimated') {
+            // 2b. Tokenize samples and keep the largest estimated savings
+            const candidates = this.estimatedCandidates(options);
+            metrics.tokens = Analyzer.estimateTokens(data, { tokenizer, strategies: candidates, sampleSize: options.sampleSize }, metrics);
+            const estimates = metrics.tokens.strategies;
+            const best = estimates.reduce((top, estimate) => estimate.savedTokens > top.savedTokens ? estimate : top);
+            // Not even the most optimistic sample saved anything
+            strategy = best.high > 0 ? candidates[estimates.indexOf(best)] : minify;
+            rule = 'token-estimate';
+            if (trace) trace.estimates = candidates.map((candidate, i) => ({ strategy: candidate, tokenEstimate: estimates[i] }));
         } else {
             // 2. Smart Strategy Selection
             // Compare estimated savings to pick the winner.
 
             // Prefer SchemaSeparation if it saves anything significant.
             // It is generally much better for LLM tokens than Abbreviated Keys.
-            if (metrics.estimatedSchemaSavings > 50 || metrics.estimatedSchemaSavings > metrics.estimatedAbbrevSavings) {
-                result = this.schemaStrat.compress(data);
+            // Repeated long string values can still outweigh any key-based savings.
+            const bestKeySavings = Math.max(metrics.estimatedSchemaSavings, metrics.estimatedAbbrevSavings);
+            let pickedSavings: number;
+            if (metrics.estimatedValueSavings > 50 && metrics.estimatedValueSavings > bestKeySavings) {
+                strategy = this.valueStrategyFor(tokenizer);
+                pickedSavings = metrics.estimatedValueSavings;
+                rule = 'value-savings';
+            } else if (metrics.estimatedSchemaSavings > 50 || metrics.estimatedSchemaSavings > metrics.estimatedAbbrevSavings) {
+                strategy = this.schemaStrategyFor(options);
+                pickedSavings = metrics.estimatedSchemaSavings;
+                rule = 'schema-savings';
             } else if (aggressive) {
                 // 3. Fallback to UltraCompact if aggressive is set
-                result = unsafe ? this.ultraStratUnsafe.compress(data) : this.ultraStratSafe.compress(data);
+                strategy = this.keyMapStrategyFor(options, unsafe ? 'ultra-unsafe' : 'ultra');
+                pickedSavings = metrics.estimatedAbbrevSavings;
+                rule = 'aggressive';
             } else {
                 // 4. Default: Abbreviated Keys
                 // If Schema Separation isn't significantly better, we default to this.
                 // It handles mixed/nested payloads better and is "safer" structure-wise.
-                result = this.abbrevStrat.compress(data);
+                strategy = this.keyMapStrategyFor(options, 'abbreviated');
+                pickedSavings = metrics.estimatedAbbrevSavings;
+                rule = 'default';
+            }
+
+            if (trace) {
+                trace.estimates = [
+                    { strategy: this.valueStrategyFor(tokenizer), estimatedSavings: metrics.estimatedValueSavings },
+                    { strategy: this.schemaStrategyFor(options), estimatedSavings: metrics.estimatedSchemaSavings },
+                    { strategy: aggressive ? this.keyMapStrategyFor(options, unsafe ? 'ultra-unsafe' : 'ultra') : this.keyMapStrategyFor(options, 'abbreviated'), estimatedSavings: metrics.estimatedAbbrevSavings }
+                ];
             }
+
+            // 4b. Registered strategies with an estimator compete on the same byte scale
+            for (const { strategy: registered, estimateSavings } of this.registeredCandidates(unsafe)) {
+                if (!estimateSavings) continue;
+                const savings = estimateSavings(data, metrics);
+                if (trace) trace.estimates.push({ strategy: registered, estimatedSavings: savings });
+                if (savings > 50 && savings > pickedSavings) {
+                    strategy = registered;
+                    pickedSavings = savings;
+                    rule = 'registered';
+                }
+            }
+        }
+        lap('select');
+        if (trace) Object.assign(trace, { metrics, rule, selected: strategy.name });
+
+        if (result === undefined) {
+            result = strategy.compress(data);
         }
+        lap('compress');
 
-        // 5. Token Validation
+        // 5. Token Validation: the input is only counted until it outgrows the output
+        let resultTokens: number | undefined;
         if (validateTokenSavings) {
-            const inputTokens = countTokens(data);
-            const outputTokens = countTokens(result);
+            const outputTokens = countTokens(result, tokenizer, { mode: tokenCounting });
+            const inputTokens = countTokens(data, tokenizer, { mode: tokenCounting, stopAbove: outputTokens });
+            resultTokens = outputTokens;
 
             if (outputTokens > inputTokens) {
-                return data; // Return original data if compression increased token count
+                // Return original data if compression increased token count
+                strategy = minify;
+                result = data;
+                resultTokens = inputTokens;
+                if (trace) trace.reverted = true;
             }
+            lap('validate');
         }
 
+        // 5b. Text outputs compete with the JSON result by tokens
+        if (allowTextOutput && metrics.totalBytes >= thresholdBytes) {
+            const textStrategies = tableColumns(data) ? [this.compactTextStrat, ...this.tableStrategies] : [this.compactTextStrat];
+            let bestTokens = resultTokens ?? countTokens(result, tokenizer, { mode: tokenCounting });
+            const input = trace && { bytes: byteLength(data), tokens: countTokens(data, tokenizer) };
+            for (const text of textStrategies) {
+                const output = text.compress(data);
+                // Reports show every candidate's full count; otherwise losing candidates stop early
+                const tokens = countTokens(output, tokenizer, { stopAbove: trace ? undefined : bestTokens });
+                if (trace) trace.candidates.push(candidateReport(text.name, output, tokens, input!));
+                if (tokens < bestTokens) {
+                    strategy = text;
+                    result = output;
+                    bestTokens = tokens;
+                }
+            }
+            lap('text-output');
+        }
+        if (trace) trace.strategy = strategy.name;
+
+        // 6. Plain data that looks like a compressed payload (e.g. a real `{m, d}` object)
+        // is wrapped in an envelope so restore() cannot misread it. Text output carries no
+        // marker, so it is always enveloped: `$enc` names its format.
+        const textOutput = typeof result === 'string' && strategy !== minify;
+        if (envelope || textOutput || !isUnambiguous(result, strategy.name, this.registry)) {
+            result = wrapEnvelope(strategy.name, result);
+            if (trace) trace.enveloped = true;
+        }
+        lap('envelope');
         return result;
     }
 
     /**
-     * Helper to get a specific strategy
+     * Optimizes JSON Lines (text, or lines already split) as the list of their values.
+     * Records are grouped by shape and each group is schema-separated, keeping the line
+     * order in `$o` ({$g, $o}, see LineGroupsStrategy); lines of a single shape give plain
+     * `{$s, $d}`. The grouping takes the place of strategy selection, so `selection`,
+     * `aggressive` and `keyMap` are rejected; every other option works as in optimize().
+     */
+    optimizeLines(input: string | string[], options: OptimizerOptions = {}): any {
+        const unsupported = [
+            options.selection !== undefined && options.selection !== 'heuristic' && 'selection',
+            options.aggressive && 'aggressive',
+            options.keyMap && 'keyMap'
+        ].filter(Boolean);
+        if (unsupported.length > 0) {
+            throw new TypeError(`optimizeLines() groups lines by shape and does not take ${unsupported.join(', ')}`);
+        }
+        return this.pipeline(parseLines(input), { ...options, groupLines: true });
+    }
+
+    /**
+     * Selection step of optimizeLines(): line groups, or the plain schema-separated
+     * block when all records share one shape and order
+     */
+    private groupLines(records: any[], options: OptimizerOptions): { strategy: CompressionStrategy; result: any } {
+        const { flattenNested = false, numeric = false, tokenizer = 'cl100k_base' } = options;
+        const lineGroups = flattenNested || numeric ? new LineGroupsStrategy({ flattenNested, numeric, tokenizer }) : this.lineGroupsStrat;
+        const grouped = lineGroups.compress(records);
+        if (grouped.$g.length === 1 && grouped.$o === undefined) {
+            // One shape: the block alone is the whole list
+            return { strategy: this.schemaStrategyFor(options), result: grouped.$g[0] };
+        }
+        return { strategy: lineGroups, result: grouped };
+    }
+
+    /**
+     * Optimizes to fit `maxTokens`. Lossless strategies are tried first; if the output is
+     * still too large, reductions are applied in order and every removal is reported.
+     * Token counts are measured with the configured tokenizer on the final output.
+     */
+    optimizeWithBudget(data: any, options: OptimizerOptions & { maxTokens: number }): BudgetResult {
+        return this.budgeted(data, options);
+    }
+
+    private budgeted(data: any, options: PipelineOptions & { maxTokens: number }, trace?: SelectionTrace): BudgetResult {
+        const { maxTokens, lowPriorityPaths, reductionOrder, tokenizer = 'cl100k_base' } = options;
+        const lossless = { ...options, maxTokens: undefined };
+        const started = performance.now();
+
+        // The last measured candidate is always the one returned, so its trace stands
+        const budgeted = reduceToBudget(data, { maxTokens, lowPriorityPaths, reductionOrder }, reduced => {
+            const result = this.pipeline(reduced, lossless, trace);
+            return { result, tokens: countTokens(result, tokenizer) };
+        });
+        if (trace) trace.timings.budget = performance.now() - started;
+        return budgeted;
+    }
+
+    /**
+     * Applies the `lossy` transforms, then optimizes as usual. The manifest lists every
+     * value the transforms changed or removed, by path in the original data.
+     */
+    optimizeWithManifest(data: any, options: OptimizerOptions = {}): ManifestResult {
+        return this.transformed(data, options);
+    }
+
+    private transformed(data: any, options: PipelineOptions, trace?: SelectionTrace): ManifestResult {
+        const started = performance.now();
+        const { result: transformed, manifest } = applyLossyTransforms(data, options.lossy ?? {});
+        if (trace) trace.timings.lossy = performance.now() - started;
+        return { result: this.pipeline(transformed, { ...options, lossy: undefined }, trace), manifest };
+    }
+
+    /**
+     * Optimizes and explains the result for the model. The instruction tokens count
+     * towards the savings: if payload plus instructions is not smaller than plain JSON,
+     * plain JSON (which needs no instructions) is returned instead.
+     */
+    optimizeWithInstructions(data: any, options: OptimizerOptions = {}): InstructedResult {
+        const originalTokens = countTokens(data, options.tokenizer ?? 'cl100k_base');
+        const compressed = this.instructed(data, options, originalTokens);
+        if (compressed.totalTokens < originalTokens || compressed.instructions.text === '') return compressed;
+
+        const plain = this.instructed(data, { ...options, thresholdBytes: Infinity }, originalTokens);
+        return plain.totalTokens <= compressed.totalTokens ? plain : compressed;
+    }
+
+    private instructed(data: any, options: OptimizerOptions, originalTokens: number): InstructedResult {
+        const { tokenizer = 'cl100k_base', unsafe = false } = options;
+        const { result, strategy } = this.optimizeTracked(data, options);
+
+        const instructions = describeFormat(result, { format: strategy as TextOutputFormat, unsafe: unsafe && strategy === 'ultra-compact', tokenizer });
+        const payloadTokens = countTokens(result, tokenizer);
+        return { result, instructions, originalTokens, payloadTokens, totalTokens: payloadTokens + instructions.tokens };
+    }
+
+    /**
+     * Optimizes and keeps a CompressionContext (short keys, schemas, legend) so the
+     * model's answer can be mapped back with restoreResponse()
+     */
+    optimizeWithContext(data: any, options: OptimizerOptions = {}): { result: any; context: CompressionContext } {
+        const { result, strategy } = this.optimizeTracked(data, options);
+        const format = typeof result === 'string' && strategy !== minify.name ? strategy as TextOutputFormat : undefined;
+        return { result, context: new CompressionContext(result, { format }) };
+    }
+
+    /**
+     * Optimizes inside an envelope to learn which strategy won, then unwraps unless the
+     * caller asked for an envelope or the payload would be ambiguous without one
+     */
+    private optimizeTracked(data: any, options: OptimizerOptions): { result: any; strategy: string } {
+        const enveloped = this.optimize(data, { ...options, envelope: true });
+        const strategy: string = enveloped.$enc;
+        const result = options.envelope || !isUnambiguous(enveloped.$p, strategy, this.registry) ? enveloped : enveloped.$p;
+        return { result, strategy };
+    }
+
+    /**
+     * Schema separation configured for the call. Numeric encodings are chosen by
+     * token counts, so they need a strategy bound to the caller's tokenizer.
+     */
+    private schemaStrategyFor(options: OptimizerOptions): CompressionStrategy {
+        const { flattenNested = false, numeric = false, tokenizer = 'cl100k_base' } = options;
+        if (numeric) {
+            return new SchemaDataSeparationStrategy({ flattenNested, numeric, tokenizer });
+        }
+        return flattenNested ? this.schemaStratNested : this.schemaStrat;
+    }
+
+    /**
+     * The value legend is chosen by token counts, so it has to use the caller's tokenizer
+     */
+    private valueStrategyFor(tokenizer: TokenizerOption): CompressionStrategy {
+        return tokenizer === 'cl100k_base' ? this.valueStrat : new ValueDictionaryStrategy({ tokenizer });
+    }
+
+    /**
+     * Key-map strategies for the call. A pinned key map needs its own instances.
+     */
+    private keyMapStrategyFor(options: OptimizerOptions, variant: 'abbreviated' | 'ultra' | 'ultra-unsafe'): CompressionStrategy {
+        const { keyMap } = options;
+        if (keyMap) {
+            return variant === 'abbreviated'
+                ? new AbbreviatedKeysStrategy({ keyMap })
+                : new UltraCompactStrategy({ keyMap, unsafe: variant === 'ultra-unsafe' });
+        }
+        if (variant === 'abbreviated') return this.abbrevStrat;
+        return variant === 'ultra' ? this.ultraStratSafe : this.ultraStratUnsafe;
+    }
+
+    /**
+     * Registered strategies that may compete: lossy ones need `unsafe`
+     */
+    private registeredCandidates(unsafe: boolean): StrategyDefinition[] {
+        return this.registry.list().filter(definition => definition.lossless || unsafe);
+    }
+
+    /**
+     * Strategies estimated selection compares: the heuristic's built-in candidates
+     * plus registered strategies
+     */
+    private estimatedCandidates(options: OptimizerOptions): CompressionStrategy[] {
+        const { aggressive = false, unsafe = false, tokenizer = 'cl100k_base' } = options;
+        return [
+            this.schemaStrategyFor(options),
+            aggressive ? this.keyMapStrategyFor(options, unsafe ? 'ultra-unsafe' : 'ultra') : this.keyMapStrategyFor(options, 'abbreviated'),
+            this.valueStrategyFor(tokenizer),
+            ...this.registeredCandidates(unsafe).map(definition => definition.strategy)
+        ];
+    }
+
+    /**
+     * Every strategy exhaustive selection may pick. Unsafe UltraCompact and lossy
+     * registered strategies only compete when the caller opted in with `unsafe`.
+     */
+    private candidateStrategies(options: OptimizerOptions): CompressionStrategy[] {
+        const candidates = [
+            this.schemaStrategyFor(options),
+            this.keyMapStrategyFor(options, 'abbreviated'),
+            this.keyMapStrategyFor(options, 'ultra'),
+            this.valueStrategyFor(options.tokenizer ?? 'cl100k_base')
+        ];
+        if (options.unsafe) candidates.push(this.keyMapStrategyFor(options, 'ultra-unsafe'));
+        candidates.push(...this.registeredCandidates(!!options.unsafe).map(definition => definition.strategy));
+        return candidates;
+    }
+
+    /**
+     * Runs every candidate strategy and keeps the one with the fewest tokens.
+     * Large payloads are ranked on a sample and only the winner runs on the full data.
+     * Candidates are skipped once the time budget is spent, unless the output must be deterministic.
+     */
+    private selectExhaustive(data: any, totalBytes: number, options: OptimizerOptions, trace?: SelectionTrace): { strategy: CompressionStrategy; result: any } {
+        const {
+            tokenizer = 'cl100k_base',
+            timeBudgetMs = 50,
+            sampleThresholdBytes = 256 * 1024,
+            sampleSize = 50,
+            deterministic = false
+        } = options;
+
+        const start = Date.now();
+        const sampled = totalBytes > sampleThresholdBytes;
+        const input = sampled ? Analyzer.sample(data, sampleSize) : data;
+
+        let best: { strategy: CompressionStrategy; output: any; tokens: number } = {
+            strategy: minify,
+            output: input,
+            tokens: countTokens(input, tokenizer)
+        };
+
+        const baseline = trace && { bytes: byteLength(input), tokens: best.tokens };
+
+        for (const candidate of this.candidateStrategies(options)) {
+            if (!deterministic && Date.now() - start > timeBudgetMs) break;
+
+            const output = candidate.compress(input);
+            const tokens = countTokens(output, tokenizer);
+            if (trace) trace.candidates.push({ ...candidateReport(candidate.name, output, tokens, baseline!), ...(sampled ? { sampled } : {}) });
+            if (tokens < best.tokens) {
+                best = { strategy: candidate, output, tokens };
+            }
+        }
+
+        if (best.strategy === minify) return { strategy: minify, result: data };
+        return { strategy: best.strategy, result: sampled ? best.strategy.compress(data) : best.output };
+    }
+
+    /**
+     * Optimizes copies of the data with shuffled key order and compares the serialized
+     * outputs. With `deterministic: true` they should all be identical.
+     */
+    checkStability(data: any, options: OptimizerOptions = {}, settings: StabilitySettings = {}): StabilityReport {
+        const { runs = 20, seed = 1 } = settings;
+        const outputs: string[] = [];
+        for (let run = 0; run < runs; run++) {
+            const output = JSON.stringify(this.optimize(permuteKeys(data, seed + run), options));
+            if (!outputs.includes(output)) outputs.push(output);
+        }
+        return { stable: outputs.length <= 1, runs, outputs };
+    }
+
+    /**
+     * Helper to get a specific strategy, built-in or registered
      */
     getStrategy(name: string): CompressionStrategy | undefined {
-        if (name === 'minify') return minify;
-        if (name === 'schema-data-separation') return this.schemaStrat;
-        if (name === 'abbreviated-keys') return this.abbrevStrat;
-        if (name === 'ultra-compact') return this.ultraStratSafe; // Default to safe
-        return undefined;
+        if (Object.prototype.hasOwnProperty.call(this.builtins, name)) return this.builtins[name];
+        return this.registry.get(name)?.strategy;
     }
 }
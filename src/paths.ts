@@ -0,0 +1,71 @@
+/**
+ * Path helpers shared by the lossy features (budget reductions, value transforms).
+ * Paths are reported as `users[3].address.city`; patterns use dots and `*` wildcards
+ * (`users.*.metadata`, `users[*].metadata` is accepted too).
+ */
+import { isPlainObject, setKey } from './strategies';
+
+export type PathSegment = string | number;
+
+const SIMPLE_KEY = /^[A-Za-z_$][\w$-]*$/;
+
+/**
+ * Formats path segments for reports, e.g. ['users', 3, 'first name'] -> users[3]["first name"]
+ */
+export const formatPath = (segments: PathSegment[]): string => {
+    let path = '';
+    for (const segment of segments) {
+        if (typeof segment === 'number') {
+            path += `[${segment}]`;
+        } else if (SIMPLE_KEY.test(segment)) {
+            path += path ? `.${segment}` : segment;
+        } else {
+            path += `[${JSON.stringify(segment)}]`;
+        }
+    }
+    return path || '$';
+};
+
+/**
+ * Compiles a dotted path pattern into a matcher. `*` matches any single key or array index.
+ */
+export const compilePathPattern = (pattern: string): ((segments: PathSegment[]) => boolean) => {
+    const parts = pattern.replace(/\[(\*|\d+)\]/g, '.$1').split('.').filter(part => part !== '');
+    return (segments: PathSegment[]) => {
+        if (segments.length !== parts.length) return false;
+        for (let i = 0; i < parts.length; i++) {
+            if (parts[i] !== '*' && parts[i] !== String(segments[i])) return false;
+        }
+        return true;
+    };
+};
+
+/**
+ * Returned by a `rewrite` visitor to remove an object field
+ */
+export const DROP = Symbol('drop');
+
+/**
+ * Copies the data top-down. `visit` sees every value before its children and may
+ * replace it (the replacement's children are visited next) or return DROP to remove a field.
+ */
+export const rewrite = (data: any, visit: (value: any, path: PathSegment[]) => any): any => {
+    const walk = (original: any, path: PathSegment[]): any => {
+        const value = visit(original, path);
+        if (value === DROP) return DROP;
+
+        if (Array.isArray(value)) {
+            return value.map((item, i) => walk(item, [...path, i]));
+        }
+        if (isPlainObject(value)) {
+            const copy: any = {};
+            for (const key of Object.keys(value)) {
+                const child = walk(value[key], [...path, key]);
+                if (child !== DROP) setKey(copy, key, child);
+            }
+            return copy;
+        }
+        return value;
+    };
+    return walk(data, []);
+};
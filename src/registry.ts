@@ -0,0 +1,116 @@
+import { CompressionStrategy } from './strategies';
+import { AnalysisMetrics } from './analyzer';
+
+/**
+ * A user-supplied strategy and what the optimizer and restore() need to know about it
+ */
+export interface StrategyDefinition {
+    strategy: CompressionStrategy;
+    lossless: boolean; // Lossy strategies only compete when the caller sets `unsafe`
+    estimateSavings?: (data: any, metrics: AnalysisMetrics) => number; // Bytes saved; lets heuristic selection consider the strategy
+    detect?: (payload: any) => boolean; // Recognises the strategy's output, so restore() can decode it without an envelope
+}
+
+/**
+ * Names used by the built-in strategies; a registered strategy cannot replace them
+ */
+export const BUILTIN_STRATEGY_NAMES: readonly string[] = [
+    'minify',
+    'abbreviated-keys',
+    'ultra-compact',
+    'schema-data-separation',
+    'line-groups',
+    'value-dictionary',
+    'csv',
+    'tsv',
+    'markdown-table',
+    'compact-text'
+];
+
+/**
+ * Payload formats restore() recognises by shape. detectFormat() reports registered
+ * strategies by name, so these names are reserved as well.
+ */
+export const BUILTIN_FORMAT_NAMES: readonly string[] = [
+    'envelope',
+    'key-map',
+    'line-groups',
+    'schema-data-separation',
+    'value-dictionary'
+];
+
+/**
+ * Thrown when a strategy is registered with a missing, built-in or duplicate name
+ */
+export class StrategyRegistrationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'StrategyRegistrationError';
+    }
+}
+
+/**
+ * Registered strategies, in registration order. Order matters for detection:
+ * the first detector that accepts a payload decides how it is restored.
+ */
+export class StrategyRegistry {
+    private definitions = new Map<string, StrategyDefinition>();
+
+    constructor(definitions: StrategyDefinition[] = []) {
+        for (const definition of definitions) this.register(definition);
+    }
+
+    register(definition: StrategyDefinition): void {
+        const { name } = definition.strategy;
+        if (typeof name !== 'string' || name === '') {
+            throw new StrategyRegistrationError('A registered strategy needs a non-empty name');
+        }
+        if (BUILTIN_STRATEGY_NAMES.includes(name)) {
+            throw new StrategyRegistrationError(`"${name}" is a built-in strategy and cannot be replaced`);
+        }
+        if (BUILTIN_FORMAT_NAMES.includes(name)) {
+            throw new StrategyRegistrationError(`"${name}" is a built-in payload format name`);
+        }
+        if (this.definitions.has(name)) {
+            throw new StrategyRegistrationError(`A strategy named "${name}" is already registered`);
+        }
+        this.definitions.set(name, definition);
+    }
+
+    unregister(name: string): boolean {
+        return this.definitions.delete(name);
+    }
+
+    get(name: string): StrategyDefinition | undefined {
+        return this.definitions.get(name);
+    }
+
+    list(): StrategyDefinition[] {
+        return [...this.definitions.values()];
+    }
+
+    /**
+     * The first registered strategy whose detector accepts the payload
+     */
+    detect(payload: any): StrategyDefinition | undefined {
+        for (const definition of this.definitions.values()) {
+            if (definition.detect?.(payload)) return definition;
+        }
+        return undefined;
+    }
+}
+
+/**
+ * Registry used by restore() and by every Optimizer created without its own
+ */
+export const defaultRegistry = new StrategyRegistry();
+
+/**
+ * Adds a strategy to the default registry
+ */
+export const registerStrategy = (definition: StrategyDefinition): void => defaultRegistry.register(definition);
+
+/**
+ * Removes a strategy from the default registry; returns false if it was not registered
+ */
+export const unregisterStrategy = (name: string): boolean => defaultRegistry.unregister(name);
@@ -0,0 +1,81 @@
+import { AnalysisMetrics, StrategyTokenEstimate } from './analyzer';
+import { CompressionStrategy } from './strategies';
+
+/**
+ * Why the selection step picked its strategy:
+ * - below-threshold: input smaller than `thresholdBytes`, so it was only minified
+ * - exhaustive: fewest measured tokens among all candidates
+ * - value-savings: repeated strings outweighed any key-based savings
+ * - schema-savings: schema separation was estimated to save the most
+ * - aggressive: `aggressive` fallback to UltraCompact
+ * - default: Abbreviated Keys when nothing else stood out
+ * - registered: a registered strategy's estimate beat the built-in pick
+ * - token-estimate: largest token savings measured on samples (`selection: 'estimated'`)
+ * - line-groups: JSON Lines grouped by shape (optimizeLines)
+ */
+export type SelectionRule = 'below-threshold' | 'exhaustive' | 'value-savings' | 'schema-savings' | 'aggressive' | 'default' | 'registered' | 'token-estimate' | 'line-groups';
+
+export type OptimizePhase = 'lossy' | 'budget' | 'analyze' | 'select' | 'compress' | 'validate' | 'text-output' | 'envelope';
+
+/**
+ * A strategy that competed for the result
+ */
+export interface CandidateReport {
+    strategy: string;
+    estimatedSavings?: number; // Analyzer estimate in bytes (heuristic candidates only)
+    tokenEstimate?: StrategyTokenEstimate; // Sampled token estimate (estimated candidates only)
+    bytes: number;
+    tokens: number;
+    savedBytes: number; // Compared with the minified input; negative when larger
+    savedTokens: number;
+    sampled?: boolean; // Measured on a sample of the input (exhaustive mode, large payloads)
+}
+
+export interface OptimizeReport {
+    metrics: AnalysisMetrics;
+    rule: SelectionRule;
+    selected: string; // Strategy the rule picked
+    strategy: string; // Strategy of the returned result (differs after a revert or when text output won)
+    reverted: boolean; // Token validation returned the original data because the output had more tokens
+    enveloped: boolean;
+    input: { bytes: number; tokens: number };
+    output: { bytes: number; tokens: number };
+    candidates: CandidateReport[];
+    timings: Partial<Record<OptimizePhase, number>>; // Milliseconds per phase, summed over budget passes; `budget` spans the whole reduction loop
+    totalMs: number;
+}
+
+export interface ReportedResult {
+    result: any;
+    report: OptimizeReport;
+}
+
+/**
+ * Decisions recorded while optimizing. Budget mode runs selection several times;
+ * each run overwrites the decisions, so they describe the returned result.
+ */
+export interface SelectionTrace {
+    data?: any; // Input of the last selection run, after transforms, reductions and key sorting
+    metrics?: AnalysisMetrics;
+    rule?: SelectionRule;
+    selected?: string;
+    strategy?: string;
+    reverted: boolean;
+    enveloped: boolean;
+    estimates: { strategy: CompressionStrategy; estimatedSavings?: number; tokenEstimate?: StrategyTokenEstimate }[]; // Candidates not yet measured
+    candidates: CandidateReport[];
+    timings: Partial<Record<OptimizePhase, number>>;
+}
+
+export const newTrace = (): SelectionTrace => ({ reverted: false, enveloped: false, estimates: [], candidates: [], timings: {} });
+
+export const byteLength = (value: any): number =>
+    Buffer.byteLength(typeof value === 'string' ? value : JSON.stringify(value) ?? '', 'utf8');
+
+/**
+ * Sizes of a candidate's output and what it saved compared with the input
+ */
+export const candidateReport = (strategy: string, output: any, tokens: number, input: { bytes: number; tokens: number }): CandidateReport => {
+    const bytes = byteLength(output);
+    return { strategy, bytes, tokens, savedBytes: input.bytes - bytes, savedTokens: input.tokens - tokens };
+};
@@ -0,0 +1,190 @@
+import { CompressionStrategy, AbbreviatedKeysStrategy, SchemaDataSeparationStrategy, UltraCompactStrategy, ValueDictionaryStrategy, minify, isEscapedKey, isWindowed } from './strategies';
+import { isNumericEncoding } from './numeric';
+import { isEnvelope, Envelope, FORMAT_VERSION, EnvelopeVersionError, UnknownStrategyError } from './envelope';
+import { CsvStrategy, TsvStrategy, MarkdownTableStrategy, TextFormat } from './tabular';
+import { CompactTextStrategy } from './compact-text';
+import { StrategyRegistry, StrategyDefinition, defaultRegistry } from './registry';
+import { LineGroupsStrategy, isLineGroups } from './lines';
+
+/**
+ * Text outputs restore() can parse when told the format
+ */
+export type TextOutputFormat = TextFormat | 'compact-text';
+
+export interface RestoreOptions {
+    strict?: boolean; // If true, throws on envelopes with an unknown version or strategy instead of guessing
+    format?: TextOutputFormat; // Parses text output (csv, tsv, markdown-table, compact-text) instead of detecting a JSON format
+    registry?: StrategyRegistry; // Registered strategies to detect and decode (default: the global registry)
+}
+
+// Decoders for enveloped payloads, keyed by strategy name
+const decoders: Record<string, CompressionStrategy> = {
+    [minify.name]: minify,
+    'abbreviated-keys': new AbbreviatedKeysStrategy(),
+    'schema-data-separation': new SchemaDataSeparationStrategy(),
+    'line-groups': new LineGroupsStrategy(),
+    'ultra-compact': new UltraCompactStrategy(),
+    'value-dictionary': new ValueDictionaryStrategy(),
+    'csv': new CsvStrategy(),
+    'tsv': new TsvStrategy(),
+    'markdown-table': new MarkdownTableStrategy(),
+    'compact-text': new CompactTextStrategy()
+};
+
+// Built-in decoder for a strategy name, else the registered strategy of that name
+const decoderFor = (name: string, registry: StrategyRegistry): CompressionStrategy | undefined =>
+    Object.prototype.hasOwnProperty.call(decoders, name) ? decoders[name] : registry.get(name)?.strategy;
+
+type BuiltinFormat = 'envelope' | 'value-dictionary' | 'key-map' | 'line-groups' | 'schema-data-separation';
+
+/**
+ * Payload formats restore() can recognise from shape alone, or the name of the
+ * registered strategy whose detector accepted the payload
+ */
+export type PayloadFormat = BuiltinFormat | (string & {});
+
+/**
+ * A built-in format, or the registered strategy that claimed the payload. Kept apart so
+ * a strategy name can never be mistaken for a format.
+ */
+type Detection = { format: BuiltinFormat; registered?: undefined } | { format?: undefined; registered: StrategyDefinition };
+
+// Format produced by each built-in strategy (minify produces plain data)
+const strategyFormats: Record<string, BuiltinFormat> = {
+    'abbreviated-keys': 'key-map',
+    'ultra-compact': 'key-map',
+    'schema-data-separation': 'schema-data-separation',
+    'line-groups': 'line-groups',
+    'value-dictionary': 'value-dictionary'
+};
+
+/**
+ * Detects the payload format from its shape, or undefined for plain data.
+ * Registered detectors run before the built-in shapes.
+ */
+export function detectFormat(data: any, registry: StrategyRegistry = defaultRegistry): PayloadFormat | undefined {
+    const detection = detect(data, registry);
+    return detection?.registered ? detection.registered.strategy.name : detection?.format;
+}
+
+function detect(data: any, registry: StrategyRegistry): Detection | undefined {
+    if (isEnvelope(data)) return { format: 'envelope' };
+    const registered = registry.detect(data);
+    if (registered) return { registered };
+    if (isValueDictionary(data)) return { format: 'value-dictionary' };
+    if (isKeyMapPayload(data)) return { format: 'key-map' };
+    if (isLineGroups(data)) return { format: 'line-groups' };
+    if (hasSchemaMarker(data)) return { format: 'schema-data-separation' };
+    return undefined;
+}
+
+/**
+ * Checks that restore() would decode a strategy's output with that same strategy.
+ * Plain data that merely looks like a compressed payload (e.g. uncompressed `{m, d}`) is ambiguous.
+ */
+export function isUnambiguous(payload: any, strategy: string, registry: StrategyRegistry = defaultRegistry): boolean {
+    const detection = detect(payload, registry);
+    // Output of a registered strategy is only recognised by its own detector
+    const definition = registry.get(strategy);
+    if (definition) return detection?.registered === definition;
+    return detection === undefined || detection.format === strategyFormats[strategy];
+}
+
+/**
+ * Helper to decode data if you know the strategy used or if it follows the standard format
+ * Note: Since our strategies produce different output structures (e.g. {m, d} or {$s, $d}),
+ * we can auto-detect the strategy for decompression.
+ */
+export function restore(data: any, options: RestoreOptions = {}): any {
+    // Text output carries no marker, so the caller names the format
+    const registry = options.registry ?? defaultRegistry;
+    if (options.format !== undefined && typeof data === 'string') {
+        const decoder = decoderFor(options.format, registry);
+        if (!decoder) throw new UnknownStrategyError(options.format);
+        return decoder.decompress(data);
+    }
+
+    const detection = detect(data, registry);
+    // A registered strategy's detector recognised the payload
+    if (detection?.registered) return detection.registered.strategy.decompress(data);
+
+    switch (detection?.format) {
+        // Enveloped payloads say exactly how they were encoded
+        case 'envelope':
+            return restoreEnvelope(data, options);
+
+        // Value Dictionary format ({$l: legend, $v: data})
+        case 'value-dictionary':
+            return decoders['value-dictionary'].decompress(data);
+
+        // UltraCompact or AbbreviatedKeys format ({m: map, d: data})
+        case 'key-map':
+            // We don't distinguish between Abbreviated and UltraCompact in the structure easily
+            // But the decompression logic is nearly identical: reverse map 'm' and traverse 'd'.
+            // UltraCompact handles booleans specifically (input 1/0) but mapping logic is same.
+            // We can reuse one decompressor for both if we accept the 1/0 values.
+            return decoders['ultra-compact'].decompress(data);
+
+        // JSON Lines grouped by shape ({$g: blocks, $o: order})
+        case 'line-groups':
+            return decoders['line-groups'].decompress(data);
+
+        // Schema Separation format anywhere in the structure
+        case 'schema-data-separation':
+            return decoders['schema-data-separation'].decompress(data);
+
+        // Plain data
+        default:
+            return data;
+    }
+}
+
+function restoreEnvelope(envelope: Envelope, options: RestoreOptions): any {
+    const { strict = false } = options;
+
+    if (envelope.$ver !== FORMAT_VERSION && strict) {
+        throw new EnvelopeVersionError(envelope.$ver);
+    }
+
+    const decoder = decoderFor(envelope.$enc, options.registry ?? defaultRegistry);
+    if (!decoder) {
+        if (strict) throw new UnknownStrategyError(envelope.$enc);
+        // Best effort: fall back to shape detection on the payload
+        return restore(envelope.$p, { registry: options.registry });
+    }
+
+    return decoder.decompress(envelope.$p);
+}
+
+function isValueDictionary(obj: any): boolean {
+    return !!obj && typeof obj === 'object' && Array.isArray(obj.$l) && '$v' in obj && Object.keys(obj).length === 2;
+}
+
+function isKeyMapPayload(obj: any): boolean {
+    if (!obj || typeof obj !== 'object' || Array.isArray(obj)) return false;
+    if (Object.keys(obj).length !== 2 || !('d' in obj)) return false;
+    const map = obj.m;
+    if (!map || typeof map !== 'object' || Array.isArray(map)) return false;
+    for (const k in map) {
+        if (Object.prototype.hasOwnProperty.call(map, k) && typeof map[k] !== 'string') return false;
+    }
+    return true;
+}
+
+function hasSchemaMarker(obj: any): boolean {
+    if (!obj || typeof obj !== 'object') return false;
+    if (Array.isArray(obj)) {
+        for (let i = 0; i < obj.length; i++) {
+            if (hasSchemaMarker(obj[i])) return true;
+        }
+        return false;
+    }
+    if ('$s' in obj && '$d' in obj) return true;
+    if (isNumericEncoding(obj) || isWindowed(obj)) return true;
+    for (const k in obj) {
+        if (Object.prototype.hasOwnProperty.call(obj, k)) {
+            if (isEscapedKey(k) || hasSchemaMarker(obj[k])) return true;
+        }
+    }
+    return false;
+}
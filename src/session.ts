@@ -0,0 +1,187 @@
+import { ShortKeyAllocator, ValueDictionaryOptions, buildLegend, isPlainObject, setKey, LEGEND_CODE, LEGEND_CODE_LIKE } from './strategies';
+
+/**
+ * Conversation-scoped compression: short keys and legend codes stay the same across
+ * turns, so each turn only sends the entries the model has not seen yet.
+ *
+ * Turn shape: { $turn: 3, m: { new_key: "f" }, l: { "~4": "new value" }, d: <data> }
+ * `m` and `l` are omitted when a turn adds nothing.
+ */
+export interface SessionOptions extends ValueDictionaryOptions {
+    legend?: boolean; // If false, repeated strings are never interned (default: true)
+}
+
+export interface SessionPayload {
+    $turn: number;
+    m?: Record<string, string>; // New keys: original key -> short key
+    l?: Record<string, string>; // New legend entries: code -> value
+    d: any;
+}
+
+/**
+ * Everything needed to continue a session, as plain JSON
+ */
+export interface SessionState {
+    turn: number;
+    keyMap: Record<string, string>; // Original key -> short key
+    legend: string[];
+    seen?: [string, number][]; // Occurrences of strings not yet interned, so interning continues where it left off
+}
+
+// Upper bound on strings whose occurrences are remembered between turns
+const MAX_TRACKED_STRINGS = 10000;
+
+/**
+ * Checks for the shape of a session turn
+ */
+export const isSessionPayload = (data: any): data is SessionPayload =>
+    isPlainObject(data) && typeof data.$turn === 'number' && 'd' in data &&
+    Object.keys(data).every(key => key === '$turn' || key === 'm' || key === 'l' || key === 'd');
+
+/**
+ * Keeps the key dictionary and value legend of a conversation. The session that produced
+ * (or restored) a turn can restore it at any later point.
+ */
+export class OptimizerSession {
+    private keys: ShortKeyAllocator;
+    private originals = new Map<string, string>(); // Short key -> original key
+    private legend: string[] = [];
+    private codes = new Map<string, string>(); // Value -> legend code
+    private seen = new Map<string, number>(); // Occurrences in earlier turns of strings not yet interned
+    private turn = 0;
+
+    constructor(private options: SessionOptions = {}, state?: SessionState) {
+        this.keys = new ShortKeyAllocator(state?.keyMap);
+        if (!state) return;
+
+        this.turn = state.turn;
+        for (const original of Object.keys(state.keyMap)) this.originals.set(state.keyMap[original], original);
+        state.legend.forEach((value, i) => this.addLegendEntry(i, value));
+        this.seen = new Map(state.seen);
+    }
+
+    /**
+     * Rehydrates a session saved with toJSON()
+     */
+    static fromJSON(state: SessionState, options: SessionOptions = {}): OptimizerSession {
+        return new OptimizerSession(options, state);
+    }
+
+    toJSON(): SessionState {
+        return { turn: this.turn, keyMap: this.keys.toObject(), legend: this.legend.slice(), seen: Array.from(this.seen) };
+    }
+
+    private addLegendEntry(index: number, value: string) {
+        this.legend[index] = value;
+        this.codes.set(value, `~${index}`);
+    }
+
+    /**
+     * Compresses the data of the next turn, reusing every key and code sent before
+     */
+    optimize(data: any): SessionPayload {
+        const newKeys: Record<string, string> = {};
+        const newCodes: Record<string, string> = {};
+
+        if (this.options.legend !== false) {
+            const counts = new Map<string, number>();
+            const collect = (obj: any) => {
+                if (typeof obj === 'string') {
+                    if (!this.codes.has(obj)) counts.set(obj, (counts.get(obj) || 0) + 1);
+                } else if (Array.isArray(obj)) {
+                    for (const item of obj) collect(item);
+                } else if (isPlainObject(obj)) {
+                    for (const key of Object.keys(obj)) collect(obj[key]);
+                }
+            };
+            collect(data);
+
+            // Strings that keep coming back pay off over the conversation, not just within one turn
+            for (const [value, count] of counts) {
+                const total = count + (this.seen.get(value) || 0);
+                if (this.seen.has(value) || this.seen.size < MAX_TRACKED_STRINGS) this.seen.set(value, total);
+                counts.set(value, total);
+            }
+
+            for (const value of buildLegend(counts, this.options, this.legend.length)) {
+                this.seen.delete(value);
+                const index = this.legend.length;
+                this.addLegendEntry(index, value);
+                setKey(newCodes, `~${index}`, value);
+            }
+        }
+
+        const traverse = (obj: any): any => {
+            if (typeof obj === 'string') {
+                const code = this.codes.get(obj);
+                if (code !== undefined) return code;
+                return LEGEND_CODE_LIKE.test(obj) ? '~' + obj : obj;
+            }
+            if (Array.isArray(obj)) return obj.map(traverse);
+            if (!isPlainObject(obj)) return obj;
+
+            const newObj: any = {};
+            for (const key of Object.keys(obj)) {
+                const known = this.keys.has(key);
+                const shortKey = this.keys.get(key);
+                if (!known) {
+                    setKey(newKeys, key, shortKey);
+                    this.originals.set(shortKey, key);
+                }
+                setKey(newObj, shortKey, traverse(obj[key]));
+            }
+            return newObj;
+        };
+
+        const d = traverse(data);
+        return {
+            $turn: ++this.turn,
+            ...(Object.keys(newKeys).length > 0 ? { m: newKeys } : {}),
+            ...(Object.keys(newCodes).length > 0 ? { l: newCodes } : {}),
+            d
+        };
+    }
+
+    /**
+     * Restores any turn of this session. Entries in the payload are added to the session,
+     * so a session that only receives turns can restore them too.
+     */
+    restore(payload: any): any {
+        if (!isSessionPayload(payload)) return payload;
+
+        if (payload.m) {
+            for (const original of Object.keys(payload.m)) {
+                this.keys.pin(original, payload.m[original]);
+                this.originals.set(payload.m[original], original);
+            }
+        }
+        if (payload.l) {
+            for (const code of Object.keys(payload.l)) {
+                const match = LEGEND_CODE.exec(code);
+                if (match) this.addLegendEntry(Number(match[1]), payload.l[code]);
+            }
+        }
+        this.turn = Math.max(this.turn, payload.$turn);
+
+        const traverse = (obj: any): any => {
+            if (typeof obj === 'string') {
+                const match = LEGEND_CODE.exec(obj);
+                if (match) {
+                    const value = this.legend[Number(match[1])];
+                    return value !== undefined ? value : obj;
+                }
+                return LEGEND_CODE_LIKE.test(obj) ? obj.slice(1) : obj;
+            }
+            if (Array.isArray(obj)) return obj.map(traverse);
+            if (!isPlainObject(obj)) return obj;
+
+            const newObj: any = {};
+            for (const key of Object.keys(obj)) {
+                setKey(newObj, this.originals.get(key) ?? key, traverse(obj[key]));
+            }
+            return newObj;
+        };
+
+        return traverse(payload.d);
+    }
+}
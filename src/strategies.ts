@@ -1,3 +1,6 @@
+import { countTokens, TokenizerOption } from './tokenizer';
+import { encodeNumbers, encodeColumn, decodeNumbers, decodeColumn, isNumericEncoding, ColumnEncoding } from './numeric';
+
 /**
  * Compression Strategy Interface
  */
@@ -21,13 +24,103 @@ export const generateShortKey = (index: number): string => {
 };
 
 /**
- * Helper to check if value is a plain object
+ * Checks for a plain object, as opposed to arrays, null and class instances such as Date
  */
-const isPlainObject = (obj: any): boolean => {
+export const isPlainObject = (obj: any): boolean => {
     return obj !== null && typeof obj === 'object' && !Array.isArray(obj) && 
            (Object.getPrototypeOf(obj) === Object.prototype || Object.getPrototypeOf(obj) === null);
 };
 
+/**
+ * Sets a property without triggering the `__proto__` setter, so keys parsed from JSON survive
+ */
+export const setKey = (obj: any, key: string, value: any): void => {
+    if (key === '__proto__') {
+        Object.defineProperty(obj, key, { value, enumerable: true, writable: true, configurable: true });
+    } else {
+        obj[key] = value;
+    }
+};
+
+/**
+ * Allocates collision-free short keys (a, b, ... z, aa, ...) for original keys.
+ * Short keys that are already taken (e.g. by a pinned map) are never handed out twice.
+ */
+export class ShortKeyAllocator {
+    private keyMap = new Map<string, string>();
+    private taken = new Set<string>();
+    private counter = 0;
+
+    constructor(initial: Record<string, string> = {}) {
+        for (const key in initial) {
+            if (Object.prototype.hasOwnProperty.call(initial, key)) {
+                const shortKey = initial[key];
+                if (this.taken.has(shortKey)) {
+                    throw new Error(`Short key "${shortKey}" is assigned to more than one key`);
+                }
+                this.keyMap.set(key, shortKey);
+                this.taken.add(shortKey);
+            }
+        }
+    }
+
+    get(key: string): string {
+        let shortKey = this.keyMap.get(key);
+        if (shortKey === undefined) {
+            do {
+                shortKey = generateShortKey(this.counter++);
+            } while (this.taken.has(shortKey));
+            this.keyMap.set(key, shortKey);
+            this.taken.add(shortKey);
+        }
+        return shortKey;
+    }
+
+    has(key: string): boolean {
+        return this.keyMap.has(key);
+    }
+
+    /**
+     * Assigns a known short key, e.g. one taken from a map built elsewhere
+     */
+    pin(key: string, shortKey: string): void {
+        if (this.keyMap.get(key) === shortKey) return;
+        if (this.keyMap.has(key) || this.taken.has(shortKey)) {
+            throw new Error(`Short key "${shortKey}" for "${key}" conflicts with the existing map`);
+        }
+        this.keyMap.set(key, shortKey);
+        this.taken.add(shortKey);
+    }
+
+    toObject(): Record<string, string> {
+        return Object.fromEntries(this.keyMap);
+    }
+}
+
+/**
+ * Reserved marker keys of schema-separated payloads ($s, $d, $n, the numeric $r, $dl, $b, $o
+ * and the streamed $w). Object keys in user data that look like a marker get one extra "$"
+ * ("$s" -> "$$s", "$$s" -> "$$$s") and lose it again on decompress.
+ */
+const SCHEMA_MARKER_KEY = /^\$+(s|d|n|r|dl|b|o|w)$/;
+const ESCAPED_MARKER_KEY = /^\$\$+(s|d|n|r|dl|b|o|w)$/;
+
+export const escapeKey = (key: string): string => SCHEMA_MARKER_KEY.test(key) ? '$' + key : key;
+
+export const unescapeKey = (key: string): string => ESCAPED_MARKER_KEY.test(key) ? key.slice(1) : key;
+
+/**
+ * Checks whether a key is an escaped marker key (only produced by SchemaDataSeparationStrategy)
+ */
+export const isEscapedKey = (key: string): boolean => ESCAPED_MARKER_KEY.test(key);
+
+/**
+ * Checks for a windowed list `{ $w: [block, ...] }`, as written by compressStream(): one list
+ * split into blocks that are schema-separated on their own and concatenated on decompress
+ */
+export const isWindowed = (obj: any): boolean =>
+    isPlainObject(obj) && Array.isArray(obj.$w) && Object.keys(obj).length === 1;
+
 /**
  * Strategy 1: Minify (Baseline)
  * Just standard JSON serialization (handled by default JSON.stringify)
@@ -39,6 +132,10 @@ export const minify: CompressionStrategy = {
     decompress: (data: any) => data,
 };
 
+export interface KeyMapOptions {
+    keyMap?: Record<string, string>; // Pinned short keys (original -> short); they lead every `m`, used or not
+}
+
 /**
  * Strategy 2: Abbreviated Keys
  * Shortens keys based on a provided dictionary or auto-generated mapping
@@ -48,18 +145,10 @@ export const minify: CompressionStrategy = {
 export class AbbreviatedKeysStrategy implements CompressionStrategy {
     name = 'abbreviated-keys';
 
+    constructor(private options: KeyMapOptions = {}) { }
+
     compress(data: any): any {
-        const keyMap = new Map<string, string>();
-        let counter = 0;
-
-        const getShortKey = (key: string) => {
-            let shortKey = keyMap.get(key);
-            if (shortKey === undefined) {
-                shortKey = generateShortKey(counter++);
-                keyMap.set(key, shortKey);
-            }
-            return shortKey;
-        };
+        const keys = new ShortKeyAllocator(this.options.keyMap);
 
         const traverse = (obj: any): any => {
             if (Array.isArray(obj)) {
@@ -73,7 +162,7 @@ export class AbbreviatedKeysStrategy implements CompressionStrategy {
                 const newObj: any = {};
                 for (const k in obj) {
                     if (Object.prototype.hasOwnProperty.call(obj, k)) {
-                        newObj[getShortKey(k)] = traverse(obj[k]);
+                        setKey(newObj, keys.get(k), traverse(obj[k]));
                     }
                 }
                 return newObj;
@@ -83,7 +172,7 @@ export class AbbreviatedKeysStrategy implements CompressionStrategy {
 
         const compressedData = traverse(data);
         return {
-            m: Object.fromEntries(keyMap),
+            m: keys.toObject(),
             d: compressedData
         };
     }
@@ -110,8 +199,8 @@ export class AbbreviatedKeysStrategy implements CompressionStrategy {
                 const newObj: any = {};
                 for (const k in obj) {
                     if (Object.prototype.hasOwnProperty.call(obj, k)) {
-                        const originalKey = reverseMap.get(k) || k;
-                        newObj[originalKey] = traverse(obj[k]);
+                        const originalKey = reverseMap.has(k) ? reverseMap.get(k)! : k;
+                        setKey(newObj, originalKey, traverse(obj[k]));
                     }
                 }
                 return newObj;
@@ -123,50 +212,199 @@ export class AbbreviatedKeysStrategy implements CompressionStrategy {
     }
 }
 
+/**
+ * Marker used in `$d` rows of a union schema for keys that are absent from a record
+ * (distinct from `null`, which is kept as a regular value)
+ */
+export const MISSING_VALUE = '$u';
+
+/**
+ * Default minimum share of filled cells for an array with optional keys to be schema-separated
+ */
+export const DEFAULT_MIN_FILL_RATIO = 0.5;
+
+// Real string cells that look like the missing marker ("$u", "$$u", ...) get one extra "$"
+const MISSING_LIKE = /^\$+u$/;
+
+const escapeCell = (value: any): any => {
+    return typeof value === 'string' && MISSING_LIKE.test(value) ? '$' + value : value;
+};
+
+const unescapeCell = (value: any): any => {
+    return typeof value === 'string' && MISSING_LIKE.test(value) ? value.slice(1) : value;
+};
+
+export interface SchemaSeparationOptions {
+    optionalKeys?: boolean; // If true (default), arrays whose records have sparse optional keys use a union schema
+    minFillRatio?: number; // Minimum share of present cells for a union schema (default: 0.5)
+    flattenNested?: boolean; // If true, uniform nested objects become sub-schemas instead of repeating their keys
+    numeric?: boolean; // If true, number columns and number arrays use delta/base/range encodings when they save tokens
+    tokenizer?: TokenizerOption; // Used to measure numeric encodings (default: cl100k_base)
+}
+
+/**
+ * A `$s` entry: a plain key, or a nested sub-schema `{ key: [entries] }` whose
+ * row cell is itself an array of values
+ */
+export type SchemaEntry = string | { [key: string]: SchemaEntry[] };
+
+const hasOwn = (obj: any, key: string): boolean => Object.prototype.hasOwnProperty.call(obj, key);
+
 /**
  * Strategy 3: Schema-Data Separation
- * Optimized for arrays of objects with same structure
+ * Optimized for arrays of objects with same structure.
+ * Arrays whose records only differ by optional keys use a union schema, with
+ * absent keys encoded as MISSING_VALUE in their rows.
+ * With `flattenNested`, a column holding uniform objects (e.g. `address: {city, zip}`)
+ * becomes a sub-schema: `$s: ["id", {"address": ["city", "zip"]}]`, row `[1, ["Paris", "75001"]]`.
+ * With `numeric`, number columns may be stored as deltas or offsets (recorded in `$n`)
+ * and plain number arrays as ranges, deltas or offsets (see numeric.ts).
  */
 export class SchemaDataSeparationStrategy implements CompressionStrategy {
     name = 'schema-data-separation';
 
+    constructor(private options: SchemaSeparationOptions = {}) { }
+
+    /**
+     * Returns the schema for an array of objects, or undefined if it should not be separated
+     */
+    private buildSchema(arr: any[]): string[] | undefined {
+        const { optionalKeys = true, minFillRatio = DEFAULT_MIN_FILL_RATIO } = this.options;
+
+        const firstItem = arr[0];
+        const keys = Object.keys(firstItem);
+        const keyCount = keys.length;
+
+        let allMatch = true;
+        for (let i = 1; i < arr.length; i++) {
+            const item = arr[i];
+            if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+                return undefined;
+            }
+            if (!allMatch) continue;
+            const itemKeys = Object.keys(item);
+            if (itemKeys.length !== keyCount) {
+                allMatch = false;
+                continue;
+            }
+            for (const key of keys) {
+                if (!hasOwn(item, key)) {
+                    allMatch = false;
+                    break;
+                }
+            }
+        }
+
+        if (allMatch) return keys;
+        if (!optionalKeys) return undefined;
+
+        // Union of keys in first-seen order
+        const union = new Set<string>();
+        let presentCells = 0;
+        for (const item of arr) {
+            for (const key of Object.keys(item)) {
+                union.add(key);
+                presentCells++;
+            }
+        }
+
+        const fillRatio = presentCells / (arr.length * union.size);
+        return fillRatio >= minFillRatio ? Array.from(union) : undefined;
+    }
+
+    /**
+     * Returns the shared key set of a column if every present value is a non-empty
+     * plain object with exactly the same keys, undefined otherwise
+     */
+    private nestedKeys(items: any[], key: string): string[] | undefined {
+        let keys: string[] | undefined;
+        for (const item of items) {
+            if (!hasOwn(item, key)) continue;
+            const value = item[key];
+            if (!isPlainObject(value)) return undefined;
+            const valueKeys = Object.keys(value);
+            if (valueKeys.length === 0) return undefined;
+            if (!keys) {
+                keys = valueKeys;
+            } else if (valueKeys.length !== keys.length || !keys.every(k => hasOwn(value, k))) {
+                return undefined;
+            }
+        }
+        return keys;
+    }
+
+    /**
+     * Turns schema keys into entries, replacing uniform nested object columns with sub-schemas
+     */
+    private buildEntries(items: any[], keys: string[]): SchemaEntry[] {
+        if (!this.options.flattenNested) return keys;
+
+        return keys.map(key => {
+            const subKeys = this.nestedKeys(items, key);
+            if (!subKeys) return key;
+            const values = items.filter(item => hasOwn(item, key)).map(item => item[key]);
+            return { [key]: this.buildEntries(values, subKeys) };
+        });
+    }
+
+    /**
+     * Rewrites number columns in place (deltas or offsets) when that saves tokens.
+     * Returns the `$n` column encodings, or undefined if no column changed.
+     */
+    private encodeNumericColumns(entries: SchemaEntry[], rows: any[][]): Record<string, ColumnEncoding> | undefined {
+        let columns: Record<string, ColumnEncoding> | undefined;
+
+        entries.forEach((entry, j) => {
+            if (typeof entry !== 'string') return;
+            const cells = rows.map(row => row[j]);
+            const encoded = encodeColumn(cells, this.options.tokenizer);
+            if (!encoded) return;
+
+            rows.forEach((row, i) => { row[j] = encoded.cells[i]; });
+            columns = columns || {};
+            setKey(columns, entry, encoded.encoding);
+        });
+
+        return columns;
+    }
+
     compress(data: any): any {
+        const encodeRow = (item: any, entries: SchemaEntry[]): any[] => {
+            return entries.map(entry => {
+                if (typeof entry === 'string') {
+                    return hasOwn(item, entry) ? escapeCell(traverse(item[entry])) : MISSING_VALUE;
+                }
+                const key = Object.keys(entry)[0];
+                return hasOwn(item, key) ? encodeRow(item[key], entry[key]) : MISSING_VALUE;
+            });
+        };
+
         const traverse = (obj: any): any => {
             if (Array.isArray(obj)) {
                 // Check if it's an array of objects
                 if (obj.length > 0 && typeof obj[0] === 'object' && obj[0] !== null && !Array.isArray(obj[0])) {
-                    const firstItem = obj[0];
-                    const keys = Object.keys(firstItem);
-                    const keyCount = keys.length;
-                    
-                    let allMatch = true;
-                    for (let i = 1; i < obj.length; i++) {
-                        const item = obj[i];
-                        if (typeof item !== 'object' || item === null || Array.isArray(item)) {
-                            allMatch = false;
-                            break;
-                        }
-                        const itemKeys = Object.keys(item);
-                        if (itemKeys.length !== keyCount) {
-                            allMatch = false;
-                            break;
-                        }
-                        for (const key of keys) {
-                            if (!(key in item)) {
-                                allMatch = false;
-                                break;
-                            }
-                        }
-                        if (!allMatch) break;
-                    }
-
-                    if (allMatch) {
-                        return {
-                            $s: keys, // Schema
-                            $d: obj.map(item => keys.map(k => traverse(item[k]))) // Data
+                    const keys = this.buildSchema(obj);
+
+                    if (keys) {
+                        const entries = this.buildEntries(obj, keys);
+                        const rows = obj.map(item => encodeRow(item, entries));
+                        const columns = this.options.numeric ? this.encodeNumericColumns(entries, rows) : undefined;
+                        // `$n` precedes `$d` so streamed rows can be decoded as they arrive
+                        return columns ? {
+                            $s: entries,
+                            $n: columns, // Numeric column encodings
+                            $d: rows
+                        } : {
+                            $s: entries, // Schema
+                            $d: rows // Data
                         };
                     }
                 }
+
+                if (this.options.numeric && obj.length > 0 && typeof obj[0] === 'number') {
+                    const encoded = encodeNumbers(obj, this.options.tokenizer);
+                    if (encoded !== obj) return encoded;
+                }
                 
                 const newArr = new Array(obj.length);
                 for (let i = 0; i < obj.length; i++) {
@@ -179,7 +417,7 @@ export class SchemaDataSeparationStrategy implements CompressionStrategy {
                 const newObj: any = {};
                 for (const k in obj) {
                     if (Object.prototype.hasOwnProperty.call(obj, k)) {
-                        newObj[k] = traverse(obj[k]);
+                        setKey(newObj, escapeKey(k), traverse(obj[k]));
                     }
                 }
                 return newObj;
@@ -191,20 +429,57 @@ export class SchemaDataSeparationStrategy implements CompressionStrategy {
     }
 
     decompress(data: any): any {
+        // Undoes `$n` column encodings on copies of the rows
+        const decodeNumericColumns = (entries: SchemaEntry[], rows: any[][], columns: Record<string, ColumnEncoding>): any[][] => {
+            const decoded = rows.map(row => row.slice());
+            for (const key in columns) {
+                if (!Object.prototype.hasOwnProperty.call(columns, key)) continue;
+                const j = entries.indexOf(key);
+                if (j < 0) continue;
+                const values = decodeColumn(decoded.map(row => row[j]), columns[key]);
+                decoded.forEach((row, i) => { row[j] = values[i]; });
+            }
+            return decoded;
+        };
+
+        const decodeRow = (values: any[], entries: SchemaEntry[]): any => {
+            const item: any = {};
+            for (let j = 0; j < entries.length; j++) {
+                if (values[j] === MISSING_VALUE) continue;
+                const entry = entries[j];
+                if (typeof entry === 'string') {
+                    setKey(item, entry, traverse(unescapeCell(values[j])));
+                } else {
+                    const key = Object.keys(entry)[0];
+                    setKey(item, key, decodeRow(values[j], entry[key]));
+                }
+            }
+            return item;
+        };
+
         const traverse = (obj: any): any => {
             if (obj && typeof obj === 'object') {
                 if (obj.$s && obj.$d && Array.isArray(obj.$s) && Array.isArray(obj.$d)) {
                     const keys = obj.$s;
-                    const dataArr = obj.$d;
+                    const dataArr = isPlainObject(obj.$n) ? decodeNumericColumns(keys, obj.$d, obj.$n) : obj.$d;
                     const result = new Array(dataArr.length);
                     
                     for (let i = 0; i < dataArr.length; i++) {
-                        const values = dataArr[i];
-                        const item: any = {};
-                        for (let j = 0; j < keys.length; j++) {
-                            item[keys[j]] = traverse(values[j]);
-                        }
-                        result[i] = item;
+                        result[i] = decodeRow(dataArr[i], keys);
+                    }
+                    return result;
+                }
+
+                if (isNumericEncoding(obj)) {
+                    return decodeNumbers(obj);
+                }
+
+                if (isWindowed(obj)) {
+                    const result: any[] = [];
+                    for (const block of obj.$w) {
+                        const items = traverse(block);
+                        if (!Array.isArray(items)) result.push(items);
+                        else for (const item of items) result.push(item);
                     }
                     return result;
                 }
@@ -221,7 +496,7 @@ export class SchemaDataSeparationStrategy implements CompressionStrategy {
                     const newObj: any = {};
                     for (const k in obj) {
                         if (Object.prototype.hasOwnProperty.call(obj, k)) {
-                            newObj[k] = traverse(obj[k]);
+                            setKey(newObj, unescapeKey(k), traverse(obj[k]));
                         }
                     }
                     return newObj;
@@ -241,20 +516,10 @@ export class SchemaDataSeparationStrategy implements CompressionStrategy {
 export class UltraCompactStrategy implements CompressionStrategy {
     name = 'ultra-compact';
 
-    constructor(private options: { unsafe?: boolean } = {}) { }
+    constructor(private options: KeyMapOptions & { unsafe?: boolean } = {}) { }
 
     compress(data: any): any {
-        const keyMap = new Map<string, string>();
-        let counter = 0;
-
-        const getShortKey = (key: string) => {
-            let shortKey = keyMap.get(key);
-            if (shortKey === undefined) {
-                shortKey = generateShortKey(counter++);
-                keyMap.set(key, shortKey);
-            }
-            return shortKey;
-        };
+        const keys = new ShortKeyAllocator(this.options.keyMap);
 
         const traverse = (obj: any): any => {
             // Bool optimization: Only if unsafe mode is enabled
@@ -275,7 +540,7 @@ export class UltraCompactStrategy implements CompressionStrategy {
                 const newObj: any = {};
                 for (const k in obj) {
                     if (Object.prototype.hasOwnProperty.call(obj, k)) {
-                        newObj[getShortKey(k)] = traverse(obj[k]);
+                        setKey(newObj, keys.get(k), traverse(obj[k]));
                     }
                 }
                 return newObj;
@@ -286,7 +551,7 @@ export class UltraCompactStrategy implements CompressionStrategy {
         const compressedData = traverse(data);
 
         return {
-            m: Object.fromEntries(keyMap),
+            m: keys.toObject(),
             d: compressedData
         };
     }
@@ -313,8 +578,8 @@ export class UltraCompactStrategy implements CompressionStrategy {
                 const newObj: any = {};
                 for (const k in obj) {
                     if (Object.prototype.hasOwnProperty.call(obj, k)) {
-                        const originalKey = reverseMap.get(k) || k;
-                        newObj[originalKey] = traverse(obj[k]);
+                        const originalKey = reverseMap.has(k) ? reverseMap.get(k)! : k;
+                        setKey(newObj, originalKey, traverse(obj[k]));
                     }
                 }
                 return newObj;
@@ -325,3 +590,138 @@ export class UltraCompactStrategy implements CompressionStrategy {
         return traverse(pkg.d);
     }
 }
+
+/**
+ * Legend codes look like "~0", "~1", ...; real strings of that shape get an extra "~"
+ */
+export const LEGEND_CODE = /^~(\d+)$/;
+export const LEGEND_CODE_LIKE = /^~+\d+$/;
+
+export interface ValueDictionaryOptions {
+    tokenizer?: TokenizerOption; // Used to decide which strings pay off (default: cl100k_base)
+    minOccurrences?: number; // Minimum repetitions before a string is considered (default: 2)
+}
+
+/**
+ * Picks the strings worth interning, most valuable first so they get the shortest codes.
+ * Codes start at `offset` when the legend extends an existing one.
+ */
+export const buildLegend = (counts: Map<string, number>, options: ValueDictionaryOptions = {}, offset = 0): string[] => {
+    const { tokenizer = 'cl100k_base', minOccurrences = 2 } = options;
+
+    const candidates: { value: string; count: number; tokens: number }[] = [];
+    for (const [value, count] of counts) {
+        // A code costs at least as much as a 2-character string, so shorter strings never pay off
+        if (count < minOccurrences || value.length < 3) continue;
+        candidates.push({ value, count, tokens: countTokens(JSON.stringify(value), tokenizer) });
+    }
+    candidates.sort((a, b) => (b.count * b.tokens) - (a.count * a.tokens));
+
+    const legend: string[] = [];
+    for (const candidate of candidates) {
+        const codeTokens = countTokens(JSON.stringify(`~${offset + legend.length}`), tokenizer);
+        const legendCost = candidate.tokens + 1; // Entry plus separator
+        if (candidate.count * (candidate.tokens - codeTokens) > legendCost) {
+            legend.push(candidate.value);
+        }
+    }
+    return legend;
+};
+
+/**
+ * Strategy 5: Value Dictionary
+ * Interns frequently repeated string values (statuses, country names, category paths)
+ * into a legend and refers to them by short codes: { $l: ["awaiting_customer_response"], $v: { status: "~0" } }.
+ * A string is only interned when the token counter says the codes plus its legend entry are cheaper.
+ */
+export class ValueDictionaryStrategy implements CompressionStrategy {
+    name = 'value-dictionary';
+
+    constructor(private options: ValueDictionaryOptions = {}) { }
+
+    compress(data: any): any {
+        const counts = new Map<string, number>();
+
+        const collect = (obj: any) => {
+            if (typeof obj === 'string') {
+                counts.set(obj, (counts.get(obj) || 0) + 1);
+            } else if (Array.isArray(obj)) {
+                for (let i = 0; i < obj.length; i++) collect(obj[i]);
+            } else if (isPlainObject(obj)) {
+                for (const k in obj) {
+                    if (Object.prototype.hasOwnProperty.call(obj, k)) collect(obj[k]);
+                }
+            }
+        };
+        collect(data);
+
+        const legend = buildLegend(counts, this.options);
+        const codes = new Map<string, string>();
+        legend.forEach((value, i) => codes.set(value, `~${i}`));
+
+        const traverse = (obj: any): any => {
+            if (typeof obj === 'string') {
+                const code = codes.get(obj);
+                if (code !== undefined) return code;
+                return LEGEND_CODE_LIKE.test(obj) ? '~' + obj : obj;
+            }
+            if (Array.isArray(obj)) {
+                const newArr = new Array(obj.length);
+                for (let i = 0; i < obj.length; i++) {
+                    newArr[i] = traverse(obj[i]);
+                }
+                return newArr;
+            }
+            if (isPlainObject(obj)) {
+                const newObj: any = {};
+                for (const k in obj) {
+                    if (Object.prototype.hasOwnProperty.call(obj, k)) {
+                        setKey(newObj, k, traverse(obj[k]));
+                    }
+                }
+                return newObj;
+            }
+            return obj;
+        };
+
+        return {
+            $l: legend,
+            $v: traverse(data)
+        };
+    }
+
+    decompress(pkg: any): any {
+        if (!pkg || !Array.isArray(pkg.$l) || pkg.$v === undefined) return pkg;
+        const legend: string[] = pkg.$l;
+
+        const traverse = (obj: any): any => {
+            if (typeof obj === 'string') {
+                const match = LEGEND_CODE.exec(obj);
+                if (match) {
+                    const index = Number(match[1]);
+                    return index < legend.length ? legend[index] : obj;
+                }
+                return LEGEND_CODE_LIKE.test(obj) ? obj.slice(1) : obj;
+            }
+            if (Array.isArray(obj)) {
+                const newArr = new Array(obj.length);
+                for (let i = 0; i < obj.length; i++) {
+                    newArr[i] = traverse(obj[i]);
+                }
+                return newArr;
+            }
+            if (isPlainObject(obj)) {
+                const newObj: any = {};
+                for (const k in obj) {
+                    if (Object.prototype.hasOwnProperty.call(obj, k)) {
+                        setKey(newObj, k, traverse(obj[k]));
+                    }
+                }
+                return newObj;
+            }
+            return obj;
+        };
+
+        return traverse(pkg.$v);
+    }
+}
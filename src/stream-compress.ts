@@ -0,0 +1,258 @@
+import { Optimizer, OptimizerOptions } from './optimizer';
+import { SchemaDataSeparationStrategy } from './strategies';
+import { IncrementalJsonParser } from './stream-restore';
+
+/**
+ * Thrown when streamed input is not valid JSON or JSON Lines
+ */
+export class StreamCompressError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'StreamCompressError';
+    }
+}
+
+/**
+ * Input of compressStream(): 'json' is one document, 'ndjson' one JSON value per line, and
+ * 'auto' reads a leading "[" as a JSON array, JSON on the first line as JSON Lines, and
+ * anything else as one document
+ */
+export type StreamInputFormat = 'auto' | 'json' | 'ndjson';
+
+export interface StreamCompressOptions extends Pick<OptimizerOptions, 'tokenizer' | 'flattenNested' | 'numeric'> {
+    format?: StreamInputFormat; // Default: 'auto'
+    windowSize?: number; // Rows per schema block; memory use grows with it (default: 1000)
+}
+
+export interface StreamCompressStats {
+    rows: number; // Array elements or lines read
+    blocks: number; // `$w` blocks written
+    inputChars: number;
+    outputChars: number;
+}
+
+type InputMode = 'array' | 'lines' | 'document';
+
+/**
+ * Compresses JSON text as it streams in. Elements of a top-level array, or the values of
+ * JSON Lines, are collected into windows of `windowSize` rows; each window is written as
+ * soon as it fills, schema-separated on its own, into `{"$w": [block, ...]}`. restore()
+ * and restoreStream() turn that back into one list. Any other document is read whole and
+ * compressed with optimize().
+ */
+export class StreamingCompressor {
+    readonly stats: StreamCompressStats = { rows: 0, blocks: 0, inputChars: 0, outputChars: 0 };
+    private mode?: InputMode;
+    private buffer = ''; // Text before the mode is known, the current partial line, or the whole document
+    private window: any[] = [];
+    private firstLine?: { value: any }; // 'auto': held until a second line confirms JSON Lines
+    private lineNumber = 0;
+    private parser?: IncrementalJsonParser;
+    private arrayDone = false;
+    private started = false;
+    private ended = false;
+    private output: string[] = [];
+    private strategy: SchemaDataSeparationStrategy;
+
+    constructor(private options: StreamCompressOptions = {}) {
+        const { flattenNested = false, numeric = false, tokenizer } = options;
+        this.strategy = new SchemaDataSeparationStrategy({ flattenNested, numeric, tokenizer });
+    }
+
+    /**
+     * Feeds a chunk of text and returns the output it completed
+     */
+    write(chunk: string): string {
+        if (this.ended) throw new StreamCompressError('write() after end()');
+        this.stats.inputChars += chunk.length;
+        if (this.mode) {
+            this.feed(chunk);
+        } else {
+            this.buffer += chunk;
+            this.detect(false);
+        }
+        return this.flush();
+    }
+
+    /**
+     * Signals the end of the input and returns the rest of the output
+     */
+    end(): string {
+        if (this.ended) return '';
+        if (!this.mode) this.detect(true);
+        this.ended = true;
+
+        switch (this.mode) {
+            case undefined:
+                if (this.options.format !== 'ndjson') throw new StreamCompressError('No JSON input');
+                break;
+            case 'array':
+                this.parser!.end();
+                break;
+            case 'lines':
+                this.line(this.buffer);
+                this.buffer = '';
+                if (this.firstLine) {
+                    // A single line is a plain JSON document after all
+                    this.out(JSON.stringify(new Optimizer().optimize(this.firstLine.value, this.optimizerOptions())));
+                    return this.flush();
+                }
+                break;
+            case 'document':
+                this.out(JSON.stringify(new Optimizer().optimize(this.parse(this.buffer, 'Input is not valid JSON'), this.optimizerOptions())));
+                this.buffer = '';
+                return this.flush();
+        }
+
+        this.writeWindow();
+        this.out(this.started ? ']}' : '{"$w":[]}');
+        return this.flush();
+    }
+
+    private detect(final: boolean) {
+        const { format = 'auto' } = this.options;
+        const start = this.buffer.search(/\S/);
+        if (start < 0) return;
+
+        if (format === 'ndjson') {
+            this.mode = 'lines';
+        } else if (this.buffer[start] === '[') {
+            this.mode = 'array';
+        } else if (format === 'json') {
+            this.mode = 'document';
+        } else {
+            const newline = this.buffer.indexOf('\n', start);
+            if (newline < 0 && !final) return;
+            try {
+                JSON.parse(this.buffer.slice(start, newline < 0 ? undefined : newline));
+                this.mode = 'lines';
+            } catch {
+                this.mode = 'document';
+            }
+        }
+
+        const text = this.buffer;
+        this.buffer = '';
+        if (this.mode === 'array') {
+            this.parser = new IncrementalJsonParser(
+                (path, value) => {
+                    if (path.length !== 1) return false;
+                    this.row(value);
+                    return true;
+                },
+                () => {
+                    if (this.arrayDone) throw new StreamCompressError('Input has more than one JSON document; use format "ndjson" for JSON Lines');
+                    this.arrayDone = true;
+                },
+                { strict: true, createError: message => new StreamCompressError(message) }
+            );
+        }
+        this.feed(text);
+    }
+
+    private feed(text: string) {
+        if (this.mode === 'array') {
+            this.parser!.write(text);
+        } else if (this.mode === 'lines') {
+            this.buffer += text;
+            let start = 0;
+            for (let newline = this.buffer.indexOf('\n'); newline >= 0; newline = this.buffer.indexOf('\n', start)) {
+                this.line(this.buffer.slice(start, newline));
+                start = newline + 1;
+            }
+            this.buffer = this.buffer.slice(start);
+        } else {
+            this.buffer += text;
+        }
+    }
+
+    private line(text: string) {
+        this.lineNumber++;
+        if (text.trim() === '') return;
+        const value = this.parse(text, `Line ${this.lineNumber} is not valid JSON`);
+
+        if ((this.options.format ?? 'auto') === 'auto' && this.stats.rows === 0 && !this.firstLine) {
+            this.firstLine = { value };
+            return;
+        }
+        if (this.firstLine) {
+            this.row(this.firstLine.value);
+            this.firstLine = undefined;
+        }
+        this.row(value);
+    }
+
+    private row(value: any) {
+        this.window.push(value);
+        this.stats.rows++;
+        if (this.window.length >= Math.max(1, this.options.windowSize ?? 1000)) this.writeWindow();
+    }
+
+    private writeWindow() {
+        if (this.window.length === 0) return;
+        this.out(this.started ? ',' : '{"$w":[');
+        this.out(JSON.stringify(this.strategy.compress(this.window)));
+        this.started = true;
+        this.window = [];
+        this.stats.blocks++;
+    }
+
+    private parse(text: string, message: string): any {
+        try {
+            return JSON.parse(text);
+        } catch (err) {
+            throw new StreamCompressError(`${message}: ${(err as Error).message}`);
+        }
+    }
+
+    private optimizerOptions(): OptimizerOptions {
+        const { tokenizer, flattenNested, numeric } = this.options;
+        return { tokenizer, flattenNested, numeric };
+    }
+
+    private out(text: string) {
+        this.output.push(text);
+        this.stats.outputChars += text.length;
+    }
+
+    private flush(): string {
+        return this.output.splice(0).join('');
+    }
+}
+
+/**
+ * Compresses an iterable of text or byte chunks (such as a Node Readable), yielding
+ * output text as windows complete
+ */
+export async function* compressStream(
+    source: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>,
+    options: StreamCompressOptions = {}
+): AsyncGenerator<string, void, undefined> {
+    const compressor = new StreamingCompressor(options);
+    const decoder = new TextDecoder();
+    for await (const chunk of source) {
+        // Multi-byte characters may be split across byte chunks
+        const text = compressor.write(typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true }));
+        if (text) yield text;
+    }
+    const rest = compressor.write(decoder.decode()) + compressor.end();
+    if (rest) yield rest;
+}
+
+/**
+ * A TransformStream from text or byte chunks to compressed output text
+ */
+export function createCompressStream(options: StreamCompressOptions = {}): TransformStream<string | Uint8Array, string> {
+    const compressor = new StreamingCompressor(options);
+    const decoder = new TextDecoder();
+    return new TransformStream<string | Uint8Array, string>({
+        transform(chunk, controller) {
+            const text = compressor.write(typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true }));
+            if (text) controller.enqueue(text);
+        },
+        flush(controller) {
+            const rest = compressor.write(decoder.decode()) + compressor.end();
+            if (rest) controller.enqueue(rest);
+        }
+    });
+}
@@ -0,0 +1,495 @@
+import { AbbreviatedKeysStrategy, SchemaDataSeparationStrategy, UltraCompactStrategy, ValueDictionaryStrategy, SchemaEntry, isPlainObject, setKey } from './strategies';
+import { ColumnEncoding } from './numeric';
+import { isEnvelope } from './envelope';
+import { restore } from './restore';
+import { CompressionContext, RestoreResponseOptions, UnknownKey, decodeBlock, translateValue } from './context';
+import { PathSegment } from './paths';
+
+/**
+ * Thrown when streamed text is not valid JSON, ends inside a value, or turns out not to
+ * match the payload format its leading keys announced
+ */
+export class StreamRestoreError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'StreamRestoreError';
+    }
+}
+
+export interface StreamRestoreOptions extends RestoreResponseOptions {
+    context?: CompressionContext; // Keys, schemas and codes a model answer may reuse
+}
+
+type Expect = 'value' | 'key' | 'colon' | 'comma';
+
+interface Frame {
+    container: any; // Object or array being built
+    isArray: boolean;
+    path: PathSegment[];
+    key?: string; // Key waiting for its value
+    count: number; // Members completed so far
+}
+
+const JSON_WHITESPACE = /[ \t\n\r]/;
+const STRING_SPECIAL = /["\\]/g;
+const LITERAL_START = /[-\dtfn]/;
+const LITERAL_PART = /[\w.+-]/;
+
+export interface ParserSettings {
+    strict?: boolean; // If true, text between documents is an error instead of being skipped
+    createError?: (message: string) => Error; // Default: StreamRestoreError
+    onDiscard?: () => void; // Called when a candidate document turns out not to be JSON (non-strict only)
+}
+
+/**
+ * Incremental JSON parser. Reports every completed value with its path; values the
+ * listener consumes are not kept in their parent. Only objects and arrays start a
+ * document, and text between documents (prose, code fences) is skipped.
+ *
+ * Outside strict mode a bracket in prose ("results [as requested]") is only a candidate:
+ * its text is kept until the listener consumes a value, and if it turns out not to be
+ * JSON before then, it is dropped and scanning resumes after the bracket.
+ */
+export class IncrementalJsonParser {
+    private stack: Frame[] = [];
+    private expect: Expect = 'value';
+    private token: 'string' | 'key' | 'literal' | undefined;
+    private text = '';
+    private escaped = false;
+    private offset = 0;
+    private candidate?: { text: string; offset: number }; // Unconfirmed document, from its opening bracket
+    private failure?: Error; // Last syntax error, to tell it apart from errors of the listeners
+
+    constructor(
+        private onValue: (path: PathSegment[], value: any) => boolean,
+        private onDocument: (value: any) => void,
+        private settings: ParserSettings = {}
+    ) { }
+
+    write(chunk: string) {
+        let i = 0;
+        let from = 0; // Start of the candidate's text in this chunk
+        while (i < chunk.length) {
+            // Plain string content is copied up to the next quote or backslash in one step
+            if ((this.token === 'string' || this.token === 'key') && !this.escaped) {
+                STRING_SPECIAL.lastIndex = i;
+                const end = STRING_SPECIAL.exec(chunk)?.index ?? chunk.length;
+                this.text += chunk.slice(i, end);
+                this.offset += end - i;
+                i = end;
+                if (i === chunk.length) break;
+            }
+
+            const candidate = this.candidate;
+            try {
+                this.consume(chunk[i]);
+            } catch (err) {
+                if (!candidate || this.candidate !== candidate || err !== this.failure) throw err;
+                this.discard(candidate.text + chunk.slice(from, i + 1), candidate.offset);
+                from = ++i;
+                continue;
+            }
+            if (!candidate && this.candidate) from = i;
+            i++;
+            this.offset++;
+        }
+        if (this.candidate) this.candidate.text += chunk.slice(from);
+    }
+
+    /**
+     * Drops a candidate document and scans its text again from after the opening bracket
+     */
+    private discard(text: string, offset: number) {
+        this.stack = [];
+        this.expect = 'value';
+        this.token = undefined;
+        this.text = '';
+        this.escaped = false;
+        this.candidate = undefined;
+        this.offset = offset + 1;
+        this.settings.onDiscard?.();
+        this.write(text.slice(1));
+    }
+
+    end() {
+        if (this.stack.length > 0) throw this.error('Stream ended inside a JSON value');
+    }
+
+    private error(message: string): Error {
+        return this.settings.createError ? this.settings.createError(message) : new StreamRestoreError(message);
+    }
+
+    private fail(message: string): never {
+        this.failure = this.error(`${message} at offset ${this.offset}`);
+        throw this.failure;
+    }
+
+    private consume(ch: string) {
+        // Strings and keys may span any number of chunks, so they are collected raw and parsed once closed
+        if (this.token === 'string' || this.token === 'key') {
+            this.text += ch;
+            if (this.escaped) this.escaped = false;
+            else if (ch === '\\') this.escaped = true;
+            else if (ch === '"') this.endString();
+            return;
+        }
+        if (this.token === 'literal') {
+            if (LITERAL_PART.test(ch)) {
+                this.text += ch;
+                return;
+            }
+            this.endLiteral();
+        }
+
+        if (this.stack.length === 0) {
+            if (ch === '{' || ch === '[') {
+                if (!this.settings.strict) this.candidate = { text: '', offset: this.offset };
+                this.open(ch, []);
+            } else if (this.settings.strict && !JSON_WHITESPACE.test(ch)) this.fail(`Unexpected ${JSON.stringify(ch)} outside a JSON document`);
+            return;
+        }
+        if (JSON_WHITESPACE.test(ch)) return;
+
+        const frame = this.stack[this.stack.length - 1];
+        switch (this.expect) {
+            case 'key':
+                if (ch === '"') return this.startToken('key', ch);
+                if (ch === '}' && frame.count === 0) return this.close();
+                break;
+            case 'colon':
+                if (ch === ':') {
+                    this.expect = 'value';
+                    return;
+                }
+                break;
+            case 'value':
+                if (ch === '{' || ch === '[') return this.open(ch, this.childPath(frame));
+                if (ch === '"') return this.startToken('string', ch);
+                if (LITERAL_START.test(ch)) return this.startToken('literal', ch);
+                if (ch === ']' && frame.isArray && frame.count === 0) return this.close();
+                break;
+            case 'comma':
+                if (ch === ',') {
+                    this.expect = frame.isArray ? 'value' : 'key';
+                    return;
+                }
+                if (ch === (frame.isArray ? ']' : '}')) return this.close();
+                break;
+        }
+        this.fail(`Unexpected ${JSON.stringify(ch)}`);
+    }
+
+    private childPath(frame: Frame): PathSegment[] {
+        return [...frame.path, frame.isArray ? frame.count : frame.key!];
+    }
+
+    private startToken(token: 'string' | 'key' | 'literal', ch: string) {
+        this.token = token;
+        this.text = ch;
+    }
+
+    private endString() {
+        let value: string;
+        try {
+            value = JSON.parse(this.text);
+        } catch {
+            this.fail(`Invalid string ${this.text}`);
+        }
+        const token = this.token;
+        this.token = undefined;
+
+        const frame = this.stack[this.stack.length - 1];
+        if (token === 'key') {
+            frame.key = value;
+            this.expect = 'colon';
+        } else {
+            this.complete(value, this.childPath(frame));
+        }
+    }
+
+    private endLiteral() {
+        let value: any;
+        try {
+            value = JSON.parse(this.text);
+        } catch {
+            this.fail(`Invalid literal ${this.text}`);
+        }
+        this.token = undefined;
+        this.complete(value, this.childPath(this.stack[this.stack.length - 1]));
+    }
+
+    private open(ch: string, path: PathSegment[]) {
+        const isArray = ch === '[';
+        this.stack.push({ container: isArray ? [] : {}, isArray, path, count: 0 });
+        this.expect = isArray ? 'value' : 'key';
+    }
+
+    private close() {
+        const frame = this.stack.pop()!;
+        this.complete(frame.container, frame.path);
+    }
+
+    private complete(value: any, path: PathSegment[]) {
+        if (this.stack.length === 0) {
+            this.expect = 'value';
+            this.candidate = undefined;
+            this.onDocument(value);
+            return;
+        }
+        const parent = this.stack[this.stack.length - 1];
+        if (this.onValue(path, value)) {
+            // The listener acted on the document, so it can no longer be dropped
+            this.candidate = undefined;
+        } else if (parent.isArray) {
+            parent.container.push(value);
+        } else {
+            setKey(parent.container, parent.key!, value);
+        }
+        parent.count++;
+        this.expect = 'comma';
+    }
+}
+
+/**
+ * Payload formats whose items can be decoded one at a time, with the field holding the
+ * items and the envelope names that produce them
+ */
+type StreamedFormat = 'key-map' | 'value-dictionary' | 'schema-data-separation' | 'schema-windows';
+
+const STREAMED_FORMATS: Record<StreamedFormat, { field: string; strategies: string[] }> = {
+    'key-map': { field: 'd', strategies: ['abbreviated-keys', 'ultra-compact'] },
+    'value-dictionary': { field: '$v', strategies: ['value-dictionary'] },
+    'schema-data-separation': { field: '$d', strategies: ['schema-data-separation'] },
+    'schema-windows': { field: '$w', strategies: ['schema-data-separation'] }
+};
+
+const isStringMap = (obj: any): boolean => isPlainObject(obj) && Object.keys(obj).every(key => typeof obj[key] === 'string');
+
+/**
+ * The format announced by the payload fields seen before an item of `field`
+ */
+const announcedFormat = (field: string, fields: Map<string, any>): StreamedFormat | undefined => {
+    const keys = Array.from(fields.keys()).join(',');
+    if (field === 'd' && keys === 'm' && isStringMap(fields.get('m'))) return 'key-map';
+    if (field === '$v' && keys === '$l' && Array.isArray(fields.get('$l'))) return 'value-dictionary';
+    if (field === '$w' && keys === '') return 'schema-windows';
+    if (field === '$d' && (keys === '$s' || keys === '$s,$n') && Array.isArray(fields.get('$s')) &&
+        (!fields.has('$n') || isPlainObject(fields.get('$n')))) {
+        return 'schema-data-separation';
+    }
+    return undefined;
+};
+
+interface DocumentState {
+    rootKeys: number;
+    envelope?: string; // `$enc` of an enveloped document
+    fields: Map<string, any>; // Completed payload fields, in order
+    streamed?: { format: StreamedFormat; keys: string }; // Set once payload items were emitted
+    streamedList: boolean; // Set once items of a top-level list were emitted
+    rowIndex: number;
+    previous: any[]; // Last decoded cell of each delta column
+}
+
+const newDocument = (): DocumentState => ({ rootKeys: 0, fields: new Map(), streamedList: false, rowIndex: 0, previous: [] });
+
+/**
+ * Restores compressed JSON as it streams in. Each completed item is emitted as soon as
+ * its closing bracket arrives: elements of a top-level list, and rows or items of
+ * `{m, d}`, `{$s, $d}` and `{$l, $v}` payloads (bare or enveloped). Rows of a windowed
+ * `{$w}` list (see compressStream) are emitted block by block. Any other document
+ * is emitted whole once it ends.
+ *
+ * With a `context`, items are also mapped back through its short keys, schemas and
+ * legend codes like restoreResponse(); `unknownKeys` then refers to items by emit order.
+ */
+export class StreamingRestorer {
+    readonly unknownKeys: UnknownKey[] = [];
+    private parser: IncrementalJsonParser;
+    private doc = newDocument();
+    private pending: any[] = [];
+    private emitted = 0;
+    private schemaDecoder = new SchemaDataSeparationStrategy();
+    private abbreviatedDecoder = new AbbreviatedKeysStrategy();
+    private ultraDecoder = new UltraCompactStrategy();
+    private valueDecoder = new ValueDictionaryStrategy();
+
+    constructor(private options: StreamRestoreOptions = {}) {
+        this.parser = new IncrementalJsonParser(
+            (path, value) => this.onValue(path, value),
+            value => this.onDocument(value),
+            { onDiscard: () => { this.doc = newDocument(); } }
+        );
+    }
+
+    /**
+     * Feeds a chunk of text and returns the items it completed
+     */
+    write(chunk: string): any[] {
+        this.parser.write(chunk);
+        return this.pending.splice(0);
+    }
+
+    /**
+     * Signals the end of the stream; throws if it stopped inside a document
+     */
+    end() {
+        this.parser.end();
+    }
+
+    private onValue(path: PathSegment[], value: any): boolean {
+        const doc = this.doc;
+        if (path.length === 1 && typeof path[0] === 'string') {
+            if (doc.rootKeys++ === 0 && path[0] === '$enc' && typeof value === 'string') doc.envelope = value;
+        }
+
+        let rel = path;
+        if (doc.envelope !== undefined) {
+            if (path[0] !== '$p') return false;
+            rel = path.slice(1);
+        }
+
+        if (rel.length === 1) {
+            if (typeof rel[0] === 'number') return this.emitListItem(value);
+            doc.fields.set(rel[0], value);
+            return false;
+        }
+        if (rel.length === 2 && typeof rel[0] === 'string' && typeof rel[1] === 'number') {
+            return this.emitPayloadItem(rel[0], value);
+        }
+        return false;
+    }
+
+    private emitListItem(value: any): boolean {
+        const { envelope } = this.doc;
+        if (envelope !== undefined && envelope !== 'minify' && envelope !== 'schema-data-separation') return false;
+
+        // A list only carries schema fragments inside its items, so each one decodes on its own
+        let decoded = value;
+        if (envelope !== 'minify') {
+            // List items are rows of their own, so a lone row may map to a schema
+            decoded = this.options.context ? decodeBlock(value, this.options.context, true).value : this.schemaDecoder.decompress(value);
+        }
+        this.doc.streamedList = true;
+        this.emit(decoded);
+        return true;
+    }
+
+    private emitPayloadItem(field: string, value: any): boolean {
+        const doc = this.doc;
+        const format = announcedFormat(field, doc.fields);
+        if (!format || (doc.envelope !== undefined && !STREAMED_FORMATS[format].strategies.includes(doc.envelope))) return false;
+
+        doc.streamed = { format, keys: Array.from(doc.fields.keys()).join(',') };
+        switch (format) {
+            case 'key-map': {
+                const decoder = doc.envelope === 'abbreviated-keys' ? this.abbreviatedDecoder : this.ultraDecoder;
+                this.emit(decoder.decompress({ m: doc.fields.get('m'), d: value }));
+                break;
+            }
+            case 'value-dictionary':
+                this.emit(this.valueDecoder.decompress({ $l: doc.fields.get('$l'), $v: value }));
+                break;
+            case 'schema-data-separation':
+                this.emit(this.schemaDecoder.decompress({ $s: doc.fields.get('$s'), $d: [this.decodeColumns(value)] })[0]);
+                break;
+            case 'schema-windows': {
+                // Each block is a self-contained list
+                const { context } = this.options;
+                const items = context ? decodeBlock(value, context).value : this.schemaDecoder.decompress(value);
+                for (const item of Array.isArray(items) ? items : [items]) this.emit(item);
+                break;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Undoes `$n` column encodings for the next row, carrying delta columns across rows
+     */
+    private decodeColumns(row: any): any {
+        const doc = this.doc;
+        const columns: Record<string, ColumnEncoding> | undefined = doc.fields.get('$n');
+        if (!columns || !Array.isArray(row)) return row;
+
+        const entries: SchemaEntry[] = doc.fields.get('$s');
+        const cells = row.slice();
+        for (const key of Object.keys(columns)) {
+            const j = entries.indexOf(key);
+            if (j < 0) continue;
+            const encoding = columns[key];
+            if (encoding === 'd') {
+                if (doc.rowIndex > 0) cells[j] = doc.previous[j] + cells[j];
+                doc.previous[j] = cells[j];
+            } else {
+                cells[j] = encoding.b + cells[j];
+            }
+        }
+        doc.rowIndex++;
+        return cells;
+    }
+
+    private onDocument(value: any) {
+        const doc = this.doc;
+        this.doc = newDocument();
+
+        if (doc.streamed || doc.streamedList) {
+            const payload = doc.envelope !== undefined ? value.$p : value;
+            const complete = doc.streamed
+                ? Object.keys(payload).join(',') === [doc.streamed.keys, STREAMED_FORMATS[doc.streamed.format].field].filter(Boolean).join(',')
+                : Array.isArray(payload);
+            if (!complete || (doc.envelope !== undefined && !isEnvelope(value))) {
+                const format = doc.streamed ? doc.streamed.format : 'list';
+                throw new StreamRestoreError(`Document does not match the ${format} payload its leading keys announced`);
+            }
+            return;
+        }
+
+        // Nothing was streamed: decode the document as a whole
+        const { context, mapBareRows = false } = this.options;
+        this.emit(context ? decodeBlock(value, context, mapBareRows).value : restore(value));
+    }
+
+    private emit(value: any) {
+        const { context, dropUnknownKeys = false } = this.options;
+        const index = this.emitted++;
+        if (context) {
+            value = translateValue(value, context, (path, key) => this.unknownKeys.push({ block: index, path, key }), dropUnknownKeys);
+        }
+        this.pending.push(value);
+    }
+}
+
+/**
+ * Restores items from an iterable of text or byte chunks as they complete
+ */
+export async function* restoreStream(
+    source: AsyncIterable<string | Uint8Array> | Iterable<string | Uint8Array>,
+    options: StreamRestoreOptions = {}
+): AsyncGenerator<any, void, undefined> {
+    const restorer = new StreamingRestorer(options);
+    const decoder = new TextDecoder();
+    for await (const chunk of source) {
+        // Multi-byte characters may be split across byte chunks
+        yield* restorer.write(typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true }));
+    }
+    yield* restorer.write(decoder.decode());
+    restorer.end();
+}
+
+/**
+ * A TransformStream from text or byte chunks to restored items
+ */
+export function createRestoreStream(options: StreamRestoreOptions = {}): TransformStream<string | Uint8Array, any> {
+    const restorer = new StreamingRestorer(options);
+    const decoder = new TextDecoder();
+    return new TransformStream<string | Uint8Array, any>({
+        transform(chunk, controller) {
+            const text = typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+            for (const item of restorer.write(text)) controller.enqueue(item);
+        },
+        flush(controller) {
+            for (const item of restorer.write(decoder.decode())) controller.enqueue(item);
+            restorer.end();
+        }
+    });
+}
@@ -0,0 +1,251 @@
+import { CompressionStrategy, isPlainObject, setKey } from './strategies';
+
+/**
+ * Text table strategies for uniform arrays of flat records. Their output is a string,
+ * not JSON, so the Optimizer only uses them with `allowTextOutput` and restore()
+ * needs `{ format }` (or an envelope) to parse them back.
+ *
+ * Cells are typed: unquoted numbers, `true`/`false` and empty cells (null) are parsed
+ * back to JSON values. Strings that would read as another type are quoted.
+ */
+export type TextFormat = 'csv' | 'tsv' | 'markdown-table';
+
+/**
+ * Thrown when table text cannot be parsed back into records
+ */
+export class TableParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TableParseError';
+    }
+}
+
+const JSON_NUMBER = /^-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?$/;
+
+const parseScalar = (raw: string): any => {
+    if (raw === '') return null;
+    if (raw === 'true') return true;
+    if (raw === 'false') return false;
+    if (JSON_NUMBER.test(raw)) return Number(raw);
+    return raw;
+};
+
+const isScalar = (value: any): boolean =>
+    value === null || typeof value === 'string' || typeof value === 'boolean' || (typeof value === 'number' && Number.isFinite(value));
+
+/**
+ * Returns the columns of a non-empty array of records that all have the same keys
+ * and only scalar values, or undefined if the data cannot be rendered as a table
+ */
+export const tableColumns = (data: any): string[] | undefined => {
+    if (!Array.isArray(data) || data.length === 0 || !isPlainObject(data[0])) return undefined;
+    const columns = Object.keys(data[0]);
+    if (columns.length === 0) return undefined;
+
+    for (const row of data) {
+        if (!isPlainObject(row) || Object.keys(row).length !== columns.length) return undefined;
+        for (const column of columns) {
+            if (!Object.prototype.hasOwnProperty.call(row, column) || !isScalar(row[column])) return undefined;
+        }
+    }
+    return columns;
+};
+
+const toRecords = (header: string[], rows: any[][]): any[] => rows.map((cells, n) => {
+    if (cells.length !== header.length) {
+        throw new TableParseError(`Row ${n + 1} has ${cells.length} cells, expected ${header.length}`);
+    }
+    const record: any = {};
+    header.forEach((column, j) => setKey(record, column, cells[j]));
+    return record;
+});
+
+interface Field {
+    raw: string;
+    quoted: boolean;
+}
+
+/**
+ * RFC 4180 style delimited text: fields containing the delimiter, quotes or line breaks
+ * are quoted, with quotes doubled. Output ends with a line break.
+ */
+abstract class DelimitedTextStrategy implements CompressionStrategy {
+    abstract name: TextFormat;
+    protected abstract delimiter: string;
+
+    private needsQuotes(value: string): boolean {
+        return value.includes(this.delimiter) || /["\r\n]/.test(value);
+    }
+
+    private encodeField(value: any, header: boolean): string {
+        if (value === null) return '';
+        if (typeof value !== 'string') return String(value);
+        // Header cells are always strings; value cells are quoted when they would parse as another type
+        const quote = this.needsQuotes(value) || (header ? value === '' : parseScalar(value) !== value);
+        return quote ? `"${value.replace(/"/g, '""')}"` : value;
+    }
+
+    private parseFields(text: string): Field[][] {
+        // A single trailing line break ends the last record
+        if (text.endsWith('\r\n')) text = text.slice(0, -2);
+        else if (text.endsWith('\n')) text = text.slice(0, -1);
+
+        const records: Field[][] = [];
+        let record: Field[] = [];
+        let i = 0;
+
+        while (true) {
+            if (text[i] === '"') {
+                let value = '';
+                i++;
+                while (true) {
+                    if (i >= text.length) throw new TableParseError('Unterminated quoted field');
+                    if (text[i] === '"') {
+                        if (text[i + 1] !== '"') break;
+                        i++;
+                    }
+                    value += text[i++];
+                }
+                i++; // Closing quote
+                record.push({ raw: value, quoted: true });
+            } else {
+                let end = i;
+                while (end < text.length && text[end] !== this.delimiter && text[end] !== '\n' && text[end] !== '\r') end++;
+                record.push({ raw: text.slice(i, end), quoted: false });
+                i = end;
+            }
+
+            if (i >= text.length) break;
+            if (text[i] === this.delimiter) {
+                i++;
+                continue;
+            }
+            if (text[i] === '\r' && text[i + 1] === '\n') i += 2;
+            else if (text[i] === '\n' || text[i] === '\r') i++;
+            else throw new TableParseError(`Unexpected character after quoted field at offset ${i}`);
+
+            records.push(record);
+            record = [];
+        }
+        records.push(record);
+        return records;
+    }
+
+    compress(data: any): any {
+        const columns = tableColumns(data);
+        if (!columns) return data; // Not a table: pass through unchanged
+
+        const lines = [columns.map(column => this.encodeField(column, true)).join(this.delimiter)];
+        for (const row of data) {
+            lines.push(columns.map(column => this.encodeField(row[column], false)).join(this.delimiter));
+        }
+        return lines.join('\n') + '\n';
+    }
+
+    decompress(data: any): any {
+        if (typeof data !== 'string') return data;
+
+        const [header, ...rows] = this.parseFields(data);
+        return toRecords(
+            header.map(field => field.raw),
+            rows.map(fields => fields.map(field => field.quoted ? field.raw : parseScalar(field.raw)))
+        );
+    }
+}
+
+/**
+ * Strategy 6: CSV
+ * Renders uniform flat records as comma separated values
+ */
+export class CsvStrategy extends DelimitedTextStrategy {
+    name: TextFormat = 'csv';
+    protected delimiter = ',';
+}
+
+/**
+ * Strategy 7: TSV
+ * Same as CSV with tab separators, which tokenize well for numeric data
+ */
+export class TsvStrategy extends DelimitedTextStrategy {
+    name: TextFormat = 'tsv';
+    protected delimiter = '\t';
+}
+
+const DELIMITER_ROW = /^\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?$/;
+
+/**
+ * Strategy 8: Markdown Table
+ * GitHub flavoured table. Strings that would read as another type, or that contain
+ * pipes, backslashes, line breaks or outer whitespace, are written as JSON string
+ * literals with `|` escaped as `\|`.
+ */
+export class MarkdownTableStrategy implements CompressionStrategy {
+    name: TextFormat = 'markdown-table';
+
+    private encodeCell(value: any, header: boolean): string {
+        if (value === null) return '';
+        if (typeof value !== 'string') return String(value);
+        const plain = value !== '' && value.trim() === value && !/[|\\\r\n]/.test(value) && !value.startsWith('"') &&
+            (header || parseScalar(value) === value);
+        return plain ? value : JSON.stringify(value).replace(/\|/g, '\\|');
+    }
+
+    private decodeCell(cell: string, header: boolean): any {
+        if (cell.startsWith('"')) {
+            try {
+                return JSON.parse(cell);
+            } catch {
+                throw new TableParseError(`Invalid quoted cell ${cell}`);
+            }
+        }
+        return header ? cell : parseScalar(cell);
+    }
+
+    private splitRow(line: string): string[] {
+        const text = line.startsWith('|') ? line.slice(1) : line;
+        const cells: string[] = [];
+        let cell = '';
+        for (let i = 0; i < text.length; i++) {
+            if (text[i] === '\\' && text[i + 1] === '|') {
+                cell += '|';
+                i++;
+            } else if (text[i] === '|') {
+                cells.push(cell.trim());
+                cell = '';
+            } else {
+                cell += text[i];
+            }
+        }
+        // The optional closing pipe does not start another cell
+        if (!text.endsWith('|') || text.endsWith('\\|')) cells.push(cell.trim());
+        return cells;
+    }
+
+    compress(data: any): any {
+        const columns = tableColumns(data);
+        if (!columns) return data; // Not a table: pass through unchanged
+
+        const row = (cells: string[]) => `| ${cells.join(' | ')} |`;
+        const lines = [
+            row(columns.map(column => this.encodeCell(column, true))),
+            row(columns.map(() => '---'))
+        ];
+        for (const item of data) {
+            lines.push(row(columns.map(column => this.encodeCell(item[column], false))));
+        }
+        return lines.join('\n');
+    }
+
+    decompress(data: any): any {
+        if (typeof data !== 'string') return data;
+
+        const lines = data.split(/\r?\n/).map(line => line.trim()).filter(line => line !== '');
+        if (lines.length < 2 || !DELIMITER_ROW.test(lines[1])) {
+            throw new TableParseError('Expected a header row followed by a delimiter row');
+        }
+
+        const header = this.splitRow(lines[0]).map(cell => this.decodeCell(cell, true));
+        const rows = lines.slice(2).map(line => this.splitRow(line).map(cell => this.decodeCell(cell, false)));
+        return toRecords(header, rows);
+    }
+}
@@ -0,0 +1,116 @@
+/**
+ * How countTokens() measures objects: 'exact' tokenizes the JSON text; 'estimate' walks the
+ * data without serializing it, tokenizing each distinct leaf and punctuation run once
+ */
+export type TokenCountMode = 'exact' | 'estimate';
+
+export interface CountOptions {
+    mode?: TokenCountMode; // Default: 'exact'
+    stopAbove?: number; // Stop once the count exceeds this; the result is then only a lower bound
+}
+
+// Leaf and run counts cached per tokenizer, and the longest string worth caching
+const MAX_CACHED_STRINGS = 100_000;
+const MAX_CACHED_STRING_LENGTH = 256;
+const caches = new WeakMap<object, Map<string, number>>();
+
+const NEEDS_ESCAPE = /["\\\u0000-\u001f\ud800-\udfff]/;
+const LEADING_PUNCTUATION = /^[^\s\p{L}\p{N}]+/u;
+const TRAILING_PUNCTUATION = / ?[^\s\p{L}\p{N}]+$/u;
+const LETTER = /^\p{L}/u;
+
+/**
+ * Estimates the tokens of JSON.stringify(data) without building the string. String
+ * contents, keys and numbers are tokenized once per distinct value; the punctuation
+ * between them (`{"`, `":"`, `"},{"`, ...) is counted as one run per boundary. Pieces
+ * that a real tokenizer would merge across a boundary (e.g. `":"-` before "-1") make
+ * the estimate differ slightly from the exact count.
+ */
+export function estimateJsonTokens(data: any, count: (text: string) => number, cacheKey: object, stopAbove = Infinity): number {
+    let cache = caches.get(cacheKey);
+    if (!cache) {
+        cache = new Map();
+        caches.set(cacheKey, cache);
+    }
+    const cached = (text: string): number => {
+        let tokens = cache!.get(text);
+        if (tokens === undefined) {
+            tokens = count(text);
+            if (text.length <= MAX_CACHED_STRING_LENGTH) {
+                if (cache!.size >= MAX_CACHED_STRINGS) cache!.clear();
+                cache!.set(text, tokens);
+            }
+        }
+        return tokens;
+    };
+
+    let total = 0;
+    let run = ''; // Punctuation since the last leaf
+
+    const flush = (): void => {
+        if (run !== '') total += cached(run);
+        run = '';
+    };
+    // Punctuation at either end of a leaf (the "-" of -1, the "." of "Done.") joins the
+    // neighbouring run, as it does in the real text; returns the trailing part
+    const leaf = (text: string): string => {
+        const leading = LEADING_PUNCTUATION.exec(text)?.[0] ?? '';
+        run += leading;
+        if (leading.length === text.length) {
+            flush();
+            return '';
+        }
+        const trailing = TRAILING_PUNCTUATION.exec(text)?.[0] ?? '';
+        let middle = text.slice(leading.length, text.length - trailing.length);
+        // A lone punctuation character is tokenized with the letters after it (`,null`)
+        if (run.length === 1 && LETTER.test(middle)) {
+            middle = run + middle;
+            run = '';
+        }
+        flush();
+        total += cached(middle);
+        return trailing;
+    };
+    const string = (value: string): void => {
+        if (value === '') {
+            run += '""';
+            return;
+        }
+        run += '"';
+        run = leaf(NEEDS_ESCAPE.test(value) ? JSON.stringify(value).slice(1, -1) : value) + '"';
+    };
+    const walk = (value: any): void => {
+        if (value !== null && typeof value === 'object' && typeof value.toJSON === 'function') value = value.toJSON();
+        if (typeof value === 'string') {
+            string(value);
+        } else if (value === null || typeof value !== 'object') {
+            run = leaf(JSON.stringify(value) ?? 'null');
+        } else if (Array.isArray(value)) {
+            run += '[';
+            for (let i = 0; i < value.length && total <= stopAbove; i++) {
+                if (i > 0) run += ',';
+                const item = value[i];
+                walk(item === undefined || typeof item === 'function' || typeof item === 'symbol' ? null : item);
+            }
+            run += ']';
+        } else {
+            run += '{';
+            let first = true;
+            for (const key in value) {
+                if (total > stopAbove) break;
+                const item = value[key];
+                if (!Object.prototype.hasOwnProperty.call(value, key) || item === undefined || typeof item === 'function' || typeof item === 'symbol') continue;
+                if (!first) run += ',';
+                first = false;
+                string(key);
+                run += ':';
+                walk(item);
+            }
+            run += '}';
+        }
+    };
+
+    walk(data);
+    flush();
+    return total;
+}
@@ -0,0 +1,140 @@
+import { Worker } from 'worker_threads';
+import { cpus } from 'os';
+import { extname, join } from 'path';
+import { defaultTokenizerRegistry, TokenizerRegistry } from './tokenizer';
+import { TiktokenBackend, TokenizerBackend } from './tokenizer-backends';
+
+export interface TokenCountPoolOptions {
+    tokenizer?: string; // Encoding or model name (default: cl100k_base)
+    size?: number; // Worker threads (default: CPUs minus one, at least one)
+    chunkChars?: number; // Texts are split into chunks of about this many characters, and shorter texts are counted in the calling thread (default: 256K)
+    registry?: TokenizerRegistry; // Default: defaultTokenizerRegistry
+}
+
+// The compiled worker sits next to this file; the TypeScript sources (as in tests) run it through ts-node
+const WORKER_FILE = join(__dirname, `token-worker${extname(__filename)}`);
+const WORKER_EXEC_ARGV = extname(__filename) === '.ts' ? ['--require', require.resolve('ts-node/register/transpile-only')] : undefined;
+
+interface Job {
+    text: string;
+    resolve: (tokens: number) => void;
+    reject: (err: Error) => void;
+}
+
+/**
+ * Counts large texts in worker threads. A text is cut at pre-tokenizer piece boundaries,
+ * where BPE never merges, so the sum over chunks equals the exact count. Only built-in
+ * js-tiktoken encodings can be loaded in a worker; other backends count in the calling thread.
+ * Workers start on first use and keep the process alive until close() is called.
+ */
+export class TokenCountPool {
+    readonly backend: TokenizerBackend;
+    private size: number;
+    private chunkChars: number;
+    private workers: Worker[] = [];
+    private idle: Worker[] = [];
+    private queue: { id: number; job: Job }[] = [];
+    private pending = new Map<number, { job: Job; worker: Worker }>();
+    private nextId = 0;
+    private closed = false;
+
+    constructor(options: TokenCountPoolOptions = {}) {
+        const { tokenizer = 'cl100k_base', registry = defaultTokenizerRegistry } = options;
+        this.backend = registry.resolve(tokenizer);
+        this.size = Math.max(1, options.size ?? cpus().length - 1);
+        this.chunkChars = Math.max(1, options.chunkChars ?? 256 * 1024);
+    }
+
+    /**
+     * Counts tokens of a string or object (as JSON)
+     */
+    async count(data: any): Promise<number> {
+        if (this.closed) throw new Error('TokenCountPool is closed');
+        const text = typeof data === 'string' ? data : JSON.stringify(data);
+        const backend = this.backend;
+        if (text.length <= this.chunkChars || !(backend instanceof TiktokenBackend) || !backend.encoding) {
+            return backend.count(text);
+        }
+
+        const counts = await Promise.all(this.chunks(text, backend.pattern).map(chunk => this.submit(chunk)));
+        return counts.reduce((sum, tokens) => sum + tokens, 0);
+    }
+
+    /**
+     * Stops all workers; pending counts are rejected
+     */
+    async close(): Promise<void> {
+        this.closed = true;
+        const workers = this.workers;
+        this.workers = [];
+        this.idle = [];
+        for (const job of [...[...this.pending.values()].map(entry => entry.job), ...this.queue.map(entry => entry.job)]) {
+            job.reject(new Error('TokenCountPool is closed'));
+        }
+        this.pending.clear();
+        this.queue = [];
+        await Promise.all(workers.map(worker => worker.terminate()));
+    }
+
+    private chunks(text: string, pattern: string): string[] {
+        const chunks: string[] = [];
+        const pieces = new RegExp(pattern, 'ug');
+        let start = 0;
+        for (const match of text.matchAll(pieces)) {
+            const end = match.index! + match[0].length;
+            if (end - start >= this.chunkChars) {
+                chunks.push(text.slice(start, end));
+                start = end;
+            }
+        }
+        if (start < text.length) chunks.push(text.slice(start));
+        return chunks;
+    }
+
+    private submit(text: string): Promise<number> {
+        return new Promise((resolve, reject) => {
+            this.queue.push({ id: this.nextId++, job: { text, resolve, reject } });
+            this.dispatch();
+        });
+    }
+
+    private dispatch(): void {
+        while (this.queue.length > 0) {
+            const worker = this.idle.pop() ?? (this.workers.length < this.size ? this.spawn() : undefined);
+            if (!worker) return;
+            const { id, job } = this.queue.shift()!;
+            this.pending.set(id, { job, worker });
+            worker.postMessage({ id, text: job.text });
+        }
+    }
+
+    private spawn(): Worker {
+        const encoding = (this.backend as TiktokenBackend).encoding;
+        const worker = new Worker(WORKER_FILE, { execArgv: WORKER_EXEC_ARGV, workerData: { encoding } });
+        worker.on('message', ({ id, tokens }: { id: number; tokens: number }) => {
+            this.pending.get(id)?.job.resolve(tokens);
+            this.pending.delete(id);
+            if (!this.closed) {
+                this.idle.push(worker);
+                this.dispatch();
+            }
+        });
+        // A failed or exited worker takes its jobs with it; the rest of the pool keeps going
+        worker.on('error', (err: Error) => this.retire(worker, err));
+        worker.on('exit', code => this.retire(worker, new Error(`Token counting worker exited with code ${code}`)));
+        this.workers.push(worker);
+        return worker;
+    }
+
+    private retire(worker: Worker, err: Error): void {
+        if (!this.workers.includes(worker)) return;
+        this.workers = this.workers.filter(other => other !== worker);
+        this.idle = this.idle.filter(other => other !== worker);
+        for (const [id, entry] of this.pending) {
+            if (entry.worker !== worker) continue;
+            this.pending.delete(id);
+            entry.job.reject(err);
+        }
+        this.dispatch();
+    }
+}
@@ -0,0 +1,9 @@
+import { parentPort, workerData } from 'worker_threads';
+import { TiktokenBackend } from './tokenizer-backends';
+
+// Worker thread of TokenCountPool; counts with the same piece cache as the calling thread
+const backend = new TiktokenBackend(workerData.encoding);
+
+parentPort!.on('message', ({ id, text }: { id: number; text: string }) => {
+    parentPort!.postMessage({ id, tokens: backend.count(text) });
+});
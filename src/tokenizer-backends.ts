@@ -0,0 +1,276 @@
+import { readFileSync } from 'fs';
+import { getEncoding, Tiktoken, TiktokenEncoding } from "js-tiktoken";
+
+/**
+ * Counts tokens for one model family
+ */
+export interface TokenizerBackend {
+    name: string;
+    /**
+     * @param stopAbove Optional: the backend may stop once the count exceeds this, returning a lower bound
+     */
+    count(text: string, stopAbove?: number): number;
+}
+
+/**
+ * Thrown when a vocabulary file cannot be read or is in an unsupported format
+ */
+export class TokenizerLoadError extends Error {
+    constructor(public path: string, message: string) {
+        super(`${path}: ${message}`);
+        this.name = 'TokenizerLoadError';
+    }
+}
+
+// Pre-tokenizer pattern of cl100k_base, also used by Llama 3
+export const CL100K_PATTERN = "('s|'S|'t|'T|'re|'rE|'Re|'RE|'ve|'vE|'Ve|'VE|'m|'M|'ll|'lL|'Ll|'LL|'d|'D)|[^\\r\\n\\p{L}\\p{N}]?\\p{L}+|\\p{N}{1,3}| ?[^\\s\\p{L}\\p{N}]+[\\r\\n]*|\\s*[\\r\\n]+|\\s+(?!\\S)|\\s+";
+
+// Pieces cached per backend before the cache is cleared, and the longest piece worth caching
+const MAX_CACHED_PIECES = 100_000;
+const MAX_CACHED_PIECE_LENGTH = 256;
+
+/**
+ * Exact BPE counts with a js-tiktoken encoding or a loaded rank file.
+ * BPE never merges across pre-tokenizer pieces, so the text is split with the encoding's
+ * pattern and each distinct piece is encoded once; repeated keys and values cost a lookup.
+ * Text that spells a special token (e.g. "<|endoftext|>") is counted as ordinary text.
+ */
+export class TiktokenBackend implements TokenizerBackend {
+    readonly encoding?: TiktokenEncoding; // Set for built-in encodings, which worker threads can load by name
+    readonly pattern: string;
+    private encoder: Tiktoken;
+    private pieces = new Map<string, number>();
+
+    constructor(public name: string, encoder?: Tiktoken) {
+        if (!encoder) this.encoding = name as TiktokenEncoding;
+        this.encoder = encoder ?? getEncoding(name as TiktokenEncoding);
+        // js-tiktoken keeps the pre-tokenizer pattern in an untyped field
+        this.pattern = (this.encoder as unknown as { patStr: string }).patStr;
+    }
+
+    count(text: string, stopAbove = Infinity): number {
+        let total = 0;
+        for (const [piece] of text.matchAll(new RegExp(this.pattern, 'ug'))) {
+            total += this.countPiece(piece);
+            if (total > stopAbove) break;
+        }
+        return total;
+    }
+
+    private countPiece(piece: string): number {
+        let tokens = this.pieces.get(piece);
+        if (tokens === undefined) {
+            tokens = this.encoder.encode(piece, [], []).length;
+            if (piece.length <= MAX_CACHED_PIECE_LENGTH) {
+                if (this.pieces.size >= MAX_CACHED_PIECES) this.pieces.clear();
+                this.pieces.set(piece, tokens);
+            }
+        }
+        return tokens;
+    }
+}
+
+export interface TiktokenFileOptions {
+    name?: string; // Backend name (default: the file path)
+    pattern?: string; // Pre-tokenizer regex (default: the cl100k_base pattern, which Llama 3 shares)
+    specialTokens?: Record<string, number>;
+}
+
+/**
+ * Loads a tiktoken rank file: one `<base64 token> <rank>` pair per line, as shipped
+ * for Llama 3 (`tokenizer.model`) and OpenAI encodings
+ */
+export function loadTiktokenFile(path: string, options: TiktokenFileOptions = {}): TiktokenBackend {
+    const ranks: string[] = [];
+    readText(path).split('\n').forEach((line, i) => {
+        if (line.trim() === '') return;
+        const [token, rank] = line.trim().split(/\s+/);
+        if (!token || !/^\d+$/.test(rank ?? '')) throw new TokenizerLoadError(path, `line ${i + 1} is not "<base64 token> <rank>"`);
+        ranks.push(`! ${rank} ${token}`);
+    });
+    if (ranks.length === 0) throw new TokenizerLoadError(path, 'no ranks found');
+
+    const encoder = new Tiktoken({ pat_str: options.pattern ?? CL100K_PATTERN, special_tokens: options.specialTokens ?? {}, bpe_ranks: ranks.join('\n') });
+    return new TiktokenBackend(options.name ?? path, encoder);
+}
+
+const SPACE = '▁'; // SentencePiece's visible space, "▁"
+
+const utf8Length = (char: string): number => Buffer.byteLength(char, 'utf8');
+
+/**
+ * SentencePiece-style counting (Llama 2, Mistral, Gemma): spaces become "▁", a "▁" is
+ * prepended, and characters missing from the vocabulary fall back to one token per byte.
+ * Unigram vocabularies are segmented with Viterbi over the piece scores; BPE vocabularies
+ * apply their merges in rank order within each "▁"-delimited word.
+ */
+export class SentencePieceBackend implements TokenizerBackend {
+    private maxPieceLength = 0;
+
+    constructor(public name: string, private pieces: Map<string, number>, private merges?: Map<string, number>) {
+        for (const piece of pieces.keys()) this.maxPieceLength = Math.max(this.maxPieceLength, piece.length);
+    }
+
+    count(text: string): number {
+        if (text === '') return 0;
+        const normalized = SPACE + text.replace(/ /g, SPACE);
+        return this.merges ? this.countBpe(normalized) : this.countUnigram(normalized);
+    }
+
+    private countUnigram(text: string): number {
+        // best[i]: highest total score of a segmentation of text[0..i), with its token count
+        const best = new Array<number>(text.length + 1).fill(-Infinity);
+        const tokens = new Array<number>(text.length + 1).fill(0);
+        best[0] = 0;
+        const unknownScore = -1e6;
+
+        for (let i = 0; i < text.length; i++) {
+            if (best[i] === -Infinity) continue;
+            const char = String.fromCodePoint(text.codePointAt(i)!);
+            let matched = false;
+            for (let length = 1; length <= this.maxPieceLength && i + length <= text.length; length++) {
+                const score = this.pieces.get(text.slice(i, i + length));
+                if (score === undefined) continue;
+                if (length >= char.length) matched = true;
+                const end = i + length;
+                if (best[i] + score > best[end]) {
+                    best[end] = best[i] + score;
+                    tokens[end] = tokens[i] + 1;
+                }
+            }
+            if (!matched) {
+                const end = i + char.length;
+                if (best[i] + unknownScore > best[end]) {
+                    best[end] = best[i] + unknownScore;
+                    tokens[end] = tokens[i] + utf8Length(char);
+                }
+            }
+        }
+        return tokens[text.length];
+    }
+
+    private countBpe(text: string): number {
+        let total = 0;
+        for (const word of text.split(new RegExp(`(?=${SPACE})`, 'u'))) {
+            let symbols = Array.from(word);
+            // Characters outside the vocabulary become byte tokens and never merge
+            total += symbols.filter(symbol => !this.pieces.has(symbol)).reduce((sum, symbol) => sum + utf8Length(symbol), 0);
+            symbols = symbols.map(symbol => this.pieces.has(symbol) ? symbol : '');
+
+            for (;;) {
+                let bestRank = Infinity;
+                let bestIndex = -1;
+                for (let i = 0; i < symbols.length - 1; i++) {
+                    if (symbols[i] === '' || symbols[i + 1] === '') continue;
+                    const rank = this.merges!.get(`${symbols[i]} ${symbols[i + 1]}`);
+                    if (rank !== undefined && rank < bestRank) {
+                        bestRank = rank;
+                        bestIndex = i;
+                    }
+                }
+                if (bestIndex < 0) break;
+                symbols.splice(bestIndex, 2, symbols[bestIndex] + symbols[bestIndex + 1]);
+            }
+            total += symbols.filter(symbol => symbol !== '').length;
+        }
+        return total;
+    }
+}
+
+/**
+ * Loads a SentencePiece vocabulary: a Hugging Face `tokenizer.json` with a Unigram or
+ * BPE model, or a `.vocab` file (`<piece>\t<score>` per line, from spm_export_vocab)
+ */
+export function loadSentencePiece(path: string, options: { name?: string } = {}): SentencePieceBackend {
+    const text = readText(path);
+    const name = options.name ?? path;
+
+    if (!text.trimStart().startsWith('{')) {
+        const pieces = new Map<string, number>();
+        text.split('\n').forEach((line, i) => {
+            if (line === '') return;
+            const [piece, score] = line.split('\t');
+            if (piece === undefined || score === undefined || Number.isNaN(Number(score))) {
+                throw new TokenizerLoadError(path, `line ${i + 1} is not "<piece>\\t<score>"`);
+            }
+            pieces.set(piece, Number(score));
+        });
+        return new SentencePieceBackend(name, pieces);
+    }
+
+    let json: any;
+    try {
+        json = JSON.parse(text);
+    } catch {
+        throw new TokenizerLoadError(path, 'not valid JSON');
+    }
+    const model = json?.model;
+    if (JSON.stringify(json.pre_tokenizer ?? null).includes('"ByteLevel"')) {
+        throw new TokenizerLoadError(path, 'byte-level BPE is not SentencePiece; load its tiktoken rank file with loadTiktokenFile()');
+    }
+
+    if (model?.type === 'Unigram' && Array.isArray(model.vocab)) {
+        return new SentencePieceBackend(name, new Map(model.vocab.map(([piece, score]: [string, number]) => [piece, score])));
+    }
+    if (model?.type === 'BPE' && model.vocab && Array.isArray(model.merges)) {
+        const merges = new Map<string, number>();
+        model.merges.forEach((merge: string | string[], rank: number) => merges.set(Array.isArray(merge) ? merge.join(' ') : merge, rank));
+        return new SentencePieceBackend(name, new Map(Object.entries(model.vocab as Record<string, number>)), merges);
+    }
+    throw new TokenizerLoadError(path, `unsupported tokenizer model ${JSON.stringify(model?.type)}`);
+}
+
+export interface RatioRates {
+    wordCharsPerToken: number; // Letters and digits per token
+    otherCharsPerToken: number; // Punctuation, whitespace and everything else per token
+}
+
+/**
+ * Estimates tokens from character counts, for model families without a public vocabulary.
+ * Letters/digits and other characters (JSON punctuation, whitespace) have separate rates.
+ */
+export class RatioEstimator implements TokenizerBackend {
+    constructor(public name: string, public rates: RatioRates) {}
+
+    count(text: string): number {
+        let word = 0;
+        for (const char of text) {
+            if (/[\p{L}\p{N}]/u.test(char)) word++;
+        }
+        const other = Array.from(text).length - word;
+        return Math.ceil(word / this.rates.wordCharsPerToken + other / this.rates.otherCharsPerToken);
+    }
+
+    /**
+     * Fits both rates to known counts (e.g. from a provider's token counting endpoint) by
+     * least squares. Falls back to one shared rate when the samples cannot tell them apart.
+     */
+    static calibrate(name: string, samples: { text: string; tokens: number }[]): RatioEstimator {
+        let ww = 0, wo = 0, oo = 0, wt = 0, ot = 0, chars = 0, tokens = 0;
+        for (const sample of samples) {
+            const word = Array.from(sample.text).filter(char => /[\p{L}\p{N}]/u.test(char)).length;
+            const other = Array.from(sample.text).length - word;
+            ww += word * word; wo += word * other; oo += other * other;
+            wt += word * sample.tokens; ot += other * sample.tokens;
+            chars += word + other; tokens += sample.tokens;
+        }
+        if (tokens <= 0) throw new RangeError('Calibration needs samples with a positive token count');
+
+        const det = ww * oo - wo * wo;
+        const perWord = det !== 0 ? (wt * oo - ot * wo) / det : 0;
+        const perOther = det !== 0 ? (ot * ww - wt * wo) / det : 0;
+        if (perWord <= 0 || perOther <= 0) {
+            const shared = chars / tokens;
+            return new RatioEstimator(name, { wordCharsPerToken: shared, otherCharsPerToken: shared });
+        }
+        return new RatioEstimator(name, { wordCharsPerToken: 1 / perWord, otherCharsPerToken: 1 / perOther });
+    }
+}
+
+function readText(path: string): string {
+    try {
+        return readFileSync(path, 'utf8');
+    } catch (err) {
+        throw new TokenizerLoadError(path, (err as Error).message);
+    }
+}
@@ -1,42 +1,129 @@
-import { getEncoding, encodingForModel, Tiktoken, TiktokenEncoding } from "js-tiktoken";
+import { getEncodingNameForModel, TiktokenEncoding, TiktokenModel } from "js-tiktoken";
+import { TokenizerBackend, TiktokenBackend, RatioEstimator } from './tokenizer-backends';
+import { CountOptions, estimateJsonTokens } from './token-count';
 
 export type SupportedEncoding = TiktokenEncoding | 'cl100k_base' | 'o200k_base' | 'p50k_base' | 'r50k_base';
 
-export class TokenCounter {
-    private static cache: Map<string, Tiktoken> = new Map();
+/**
+ * What to do with a model name no backend is registered for:
+ * warn once and count with cl100k_base, throw UnknownTokenizerError, or fall back silently
+ */
+export type UnknownModelPolicy = 'warn' | 'error' | 'fallback';
+
+/**
+ * Thrown for an unknown model name when the registry's policy is 'error'
+ */
+export class UnknownTokenizerError extends Error {
+    constructor(public model: string) {
+        super(`No tokenizer registered for model "${model}"`);
+        this.name = 'UnknownTokenizerError';
+    }
+}
+
+type BackendSource = TokenizerBackend | (() => TokenizerBackend);
+
+/**
+ * Maps model and encoding names to tokenizer backends. Registered entries are checked
+ * newest first, then js-tiktoken encodings and OpenAI model names.
+ */
+export class TokenizerRegistry {
+    onUnknown: UnknownModelPolicy = 'warn';
+    private entries: { match: string | RegExp; source: BackendSource }[] = [];
+    private cache = new Map<string, TokenizerBackend>();
+    private warned = new Set<string>();
 
     /**
-     * Gets a tokenizer instance for the specified encoding or model.
+     * @param match Exact model name, or a pattern such as /^claude-/
+     * @param source Backend, or a factory called once on first use (e.g. to load a vocabulary file lazily)
      */
-    private static getTokenizer(encodingOrModel: string): Tiktoken {
-        if (this.cache.has(encodingOrModel)) {
-            return this.cache.get(encodingOrModel)!;
+    register(match: string | RegExp, source: BackendSource): void {
+        this.entries.unshift({ match, source });
+        this.cache.clear();
+    }
+
+    unregister(match: string | RegExp): boolean {
+        const before = this.entries.length;
+        this.entries = this.entries.filter(entry => !(typeof entry.match === typeof match && String(entry.match) === String(match)));
+        this.cache.clear();
+        return this.entries.length < before;
+    }
+
+    resolve(name: string): TokenizerBackend {
+        let backend = this.cache.get(name);
+        if (!backend) {
+            backend = this.lookup(name);
+            this.cache.set(name, backend);
+        }
+        return backend;
+    }
+
+    private lookup(name: string): TokenizerBackend {
+        for (const { match, source } of this.entries) {
+            if (typeof match === 'string' ? match === name : match.test(name)) {
+                return typeof source === 'function' ? source() : source;
+            }
         }
 
-        let tokenizer: Tiktoken;
         try {
-            // Try as encoding first
-            tokenizer = getEncoding(encodingOrModel as TiktokenEncoding);
+            return new TiktokenBackend(name);
         } catch {
-            try {
-                // Try as model name
-                tokenizer = encodingForModel(encodingOrModel as any);
-            } catch {
-                // Fallback to cl100k_base (GPT-4)
-                tokenizer = getEncoding("cl100k_base");
-            }
+            // Not an encoding name
+        }
+        try {
+            return this.resolve(getEncodingNameForModel(name as TiktokenModel));
+        } catch {
+            // Not an OpenAI model either
         }
 
-        this.cache.set(encodingOrModel, tokenizer);
-        return tokenizer;
+        if (this.onUnknown === 'error') throw new UnknownTokenizerError(name);
+        if (this.onUnknown === 'warn' && !this.warned.has(name)) {
+            this.warned.add(name);
+            process.emitWarning(`No tokenizer registered for model "${name}"; counting with cl100k_base. Use registerTokenizer() to add one.`, 'TokenizerWarning');
+        }
+        return this.resolve('cl100k_base');
     }
+}
+
+/**
+ * Rough rates for Claude models, whose vocabulary is not public. Close to GPT-4 on
+ * English and JSON; calibrate with RatioEstimator.calibrate() for accurate counts.
+ */
+export const CLAUDE_RATES = { wordCharsPerToken: 4, otherCharsPerToken: 1.5 };
+
+export const defaultTokenizerRegistry = new TokenizerRegistry();
+defaultTokenizerRegistry.register(/^claude/, new RatioEstimator('claude', CLAUDE_RATES));
 
+/**
+ * Adds a backend to the default registry; later registrations take precedence
+ */
+export const registerTokenizer = (match: string | RegExp, source: BackendSource): void => defaultTokenizerRegistry.register(match, source);
+
+export class TokenCounter {
     /**
      * Counts tokens in a string or object (as JSON).
      */
     static count(data: any, encodingOrModel: string = "cl100k_base"): number {
         const text = typeof data === 'string' ? data : JSON.stringify(data);
-        const tokenizer = this.getTokenizer(encodingOrModel);
-        return tokenizer.encode(text).length;
+        return defaultTokenizerRegistry.resolve(encodingOrModel).count(text);
+    }
+}
+
+/**
+ * Tokenizer accepted by the public API: an encoding or model name, a backend, or a custom counting function.
+ */
+export type TokenizerOption = string | TokenizerBackend | ((text: string) => number);
+
+/**
+ * Counts tokens of a string or object (as JSON) with any supported tokenizer option.
+ * With `stopAbove`, counting may stop early and return any number above the limit.
+ */
+export function countTokens(data: any, tokenizer: TokenizerOption = "cl100k_base", options: CountOptions = {}): number {
+    const { mode = 'exact', stopAbove } = options;
+    const backend = typeof tokenizer === 'string' ? defaultTokenizerRegistry.resolve(tokenizer) : tokenizer;
+    const count = typeof backend === 'function' ? (text: string) => backend(text) : (text: string, limit?: number) => backend.count(text, limit);
+
+    if (mode === 'estimate' && typeof data !== 'string') {
+        return estimateJsonTokens(data, count, backend, stopAbove);
     }
+    return count(typeof data === 'string' ? data : JSON.stringify(data), stopAbove);
 }
@@ -0,0 +1,100 @@
+import { formatPath, rewrite, DROP } from './paths';
+
+/**
+ * Opt-in lossy value transforms. Each one changes what the model sees, so every
+ * change is recorded in a manifest for auditing.
+ */
+export type LossyTransform = 'round-numbers' | 'timestamp-granularity' | 'drop-empty' | 'collapse-whitespace';
+
+const TIMESTAMP_GRANULARITIES = ['year', 'month', 'day', 'hour', 'minute', 'second'] as const;
+
+export type TimestampGranularity = typeof TIMESTAMP_GRANULARITIES[number];
+
+export interface LossyOptions {
+    roundNumbers?: number; // Round non-integer numbers to this many significant digits (1 to 100)
+    timestampGranularity?: TimestampGranularity; // Truncate ISO 8601 timestamps (no timezone conversion)
+    dropEmpty?: boolean; // Remove fields whose value is null, '' or []
+    collapseWhitespace?: boolean; // Replace whitespace runs inside strings with one space and trim
+}
+
+/**
+ * One value changed (or field removed) by a transform
+ */
+export interface TransformRecord {
+    transform: LossyTransform;
+    path: string; // e.g. readings[2].value
+    original: any;
+    value?: any; // Omitted for removed fields
+}
+
+export interface ManifestResult {
+    result: any;
+    manifest: TransformRecord[];
+}
+
+// date, hours, minutes, seconds, fraction, zone
+const ISO_TIMESTAMP = /^(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const truncateTimestamp = (value: string, granularity: TimestampGranularity): string => {
+    const match = ISO_TIMESTAMP.exec(value);
+    if (!match) return value;
+    const [, date, hours, minutes, seconds, , zone = ''] = match;
+
+    switch (granularity) {
+        case 'year': return date.slice(0, 4);
+        case 'month': return date.slice(0, 7);
+        case 'day': return date;
+    }
+    if (hours === undefined) return value;
+    switch (granularity) {
+        case 'hour': return `${date}T${hours}:00${zone}`;
+        case 'minute': return `${date}T${hours}:${minutes}${zone}`;
+        case 'second': return `${date}T${hours}:${minutes}:${seconds ?? '00'}${zone}`;
+    }
+};
+
+const isEmpty = (value: any): boolean => value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Applies the enabled transforms to a copy of the data and records every change
+ */
+export const applyLossyTransforms = (data: any, options: LossyOptions): ManifestResult => {
+    const { roundNumbers, timestampGranularity, dropEmpty = false, collapseWhitespace = false } = options;
+    if (roundNumbers !== undefined && !(Number.isInteger(roundNumbers) && roundNumbers >= 1 && roundNumbers <= 100)) {
+        throw new RangeError(`roundNumbers must be an integer from 1 to 100, got ${roundNumbers}`);
+    }
+    if (timestampGranularity !== undefined && !TIMESTAMP_GRANULARITIES.includes(timestampGranularity)) {
+        throw new RangeError(`timestampGranularity must be one of ${TIMESTAMP_GRANULARITIES.join(', ')}, got ${JSON.stringify(timestampGranularity)}`);
+    }
+    const manifest: TransformRecord[] = [];
+
+    const result = rewrite(data, (original, segments) => {
+        const path = formatPath(segments);
+        let value = original;
+
+        const apply = (transform: LossyTransform, next: any) => {
+            if (next !== value) {
+                manifest.push({ transform, path, original: value, value: next });
+                value = next;
+            }
+        };
+
+        if (typeof value === 'number' && roundNumbers !== undefined && Number.isFinite(value) && !Number.isInteger(value)) {
+            apply('round-numbers', Number(value.toPrecision(roundNumbers)));
+        }
+        if (typeof value === 'string' && timestampGranularity) {
+            apply('timestamp-granularity', truncateTimestamp(value, timestampGranularity));
+        }
+        if (typeof value === 'string' && collapseWhitespace) {
+            apply('collapse-whitespace', value.replace(/\s+/g, ' ').trim());
+        }
+        // Only object fields are removed, so array indices in the manifest stay valid
+        if (dropEmpty && typeof segments[segments.length - 1] === 'string' && isEmpty(value)) {
+            manifest.push({ transform: 'drop-empty', path, original: value });
+            return DROP;
+        }
+        return value;
+    });
+
+    return { result, manifest };
+};
@@ -0,0 +1,133 @@
+import { isDeepStrictEqual } from 'util';
+import { optimize, restore, AbbreviatedKeysStrategy, SchemaDataSeparationStrategy, UltraCompactStrategy, ValueDictionaryStrategy, CompactTextStrategy } from '../src/index';
+import { OptimizerOptions } from '../src/optimizer';
+
+// Deterministic PRNG (mulberry32) so failures are reproducible
+const createRandom = (seed: number) => () => {
+    seed = (seed + 0x6D2B79F5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Keys and values that collide with markers, generated short keys and codes
+const NASTY_KEYS = [
+    'm', 'd', 'a', 'b', 'aa', '', '__proto__', 'constructor', 'toString',
+    '$s', '$d', '$$s', '$$$d', '$n', '$r', '$dl', '$b', '$o', '$l', '$v', '$enc', '$ver', '$p', '$u'
+];
+const NASTY_STRINGS = ['$u', '$$u', '~0', '~~1', '~12', 'a', 'm', '$s', '', 'true', '1', 'null', 'awaiting_customer_response'];
+
+const generate = (random: () => number, depth = 0): any => {
+    const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+    const type = depth > 3 ? Math.floor(random() * 4) : Math.floor(random() * 9);
+
+    switch (type) {
+        case 0: return pick(NASTY_STRINGS);
+        case 1: return pick([true, false, null]);
+        case 2: return pick([0, 1, -1, 0.1, -2.5, 1718000000123, 1e21]);
+        case 3: return `str_${Math.floor(random() * 5)}`;
+        case 4: {
+            // Number runs and sequences
+            const start = Math.floor(random() * 100) - 50;
+            return Array.from({ length: Math.floor(random() * 8) }, (_, i) => start + i * pick([1, -1, 1000, 0.5]));
+        }
+        case 5: {
+            // Near-uniform records with nasty keys
+            const keys = Array.from({ length: 1 + Math.floor(random() * 4) }, () => pick(NASTY_KEYS));
+            return Array.from({ length: Math.floor(random() * 6) }, () => {
+                const row: any = {};
+                for (const key of keys) {
+                    if (random() < 0.8) Object.defineProperty(row, key, { value: generate(random, depth + 2), enumerable: true, writable: true, configurable: true });
+                }
+                return row;
+            });
+        }
+        case 6: {
+            // Marker lookalikes
+            return pick([
+                { $s: ['a'], $d: [[1]] },
+                { m: { x: 'a' }, d: { a: 1 } },
+                { $l: ['x'], $v: '~0' },
+                { $enc: 'minify', $ver: 1, $p: 1 },
+                { $r: [[1, 3]] },
+                { $b: 1, $o: [1, 2] }
+            ]);
+        }
+        case 7: {
+            const arr = [];
+            const len = Math.floor(random() * 5);
+            for (let i = 0; i < len; i++) arr.push(generate(random, depth + 1));
+            return arr;
+        }
+        default: {
+            const obj: any = {};
+            const len = Math.floor(random() * 5);
+            for (let i = 0; i < len; i++) {
+                Object.defineProperty(obj, pick(NASTY_KEYS), { value: generate(random, depth + 1), enumerable: true, writable: true, configurable: true });
+            }
+            return obj;
+        }
+    }
+};
+
+const overWire = (value: any) => JSON.parse(JSON.stringify(value));
+
+describe('Adversarial Fuzz Testing', () => {
+    const optionSets: OptimizerOptions[] = [
+        {},
+        { thresholdBytes: 0, validateTokenSavings: false },
+        { thresholdBytes: 0, validateTokenSavings: false, aggressive: true },
+        { thresholdBytes: 0, validateTokenSavings: false, flattenNested: true, numeric: true },
+        { thresholdBytes: 0, envelope: true }
+    ];
+
+    it('restore(optimize(x)) should deep-equal x for adversarial inputs', () => {
+        const random = createRandom(20240601);
+        for (let i = 0; i < 300; i++) {
+            const data = overWire(generate(random));
+            for (const options of optionSets) {
+                const restored = restore(overWire(optimize(data, options)));
+                if (!isDeepStrictEqual(restored, data)) {
+                    throw new Error(`Round-trip failed at iteration ${i} with ${JSON.stringify(options)}\n` +
+                        `Original: ${JSON.stringify(data)}\nRestored: ${JSON.stringify(restored)}`);
+                }
+            }
+        }
+    });
+
+    it('every strategy should round-trip adversarial inputs on its own', () => {
+        const strategies = [
+            new AbbreviatedKeysStrategy(),
+            new SchemaDataSeparationStrategy(),
+            new SchemaDataSeparationStrategy({ flattenNested: true, numeric: true }),
+            new UltraCompactStrategy(),
+            new ValueDictionaryStrategy({ minOccurrences: 1, tokenizer: (text) => text.length }),
+            new CompactTextStrategy()
+        ];
+        const random = createRandom(7);
+        for (let i = 0; i < 200; i++) {
+            const data = overWire(generate(random));
+            for (const strategy of strategies) {
+                const restored = strategy.decompress(overWire(strategy.compress(data)));
+                if (!isDeepStrictEqual(restored, data)) {
+                    throw new Error(`${strategy.name} failed at iteration ${i}\n` +
+                        `Original: ${JSON.stringify(data)}\nRestored: ${JSON.stringify(restored)}`);
+                }
+            }
+        }
+    });
+
+    it('should keep __proto__ and empty keys as data', () => {
+        const data = JSON.parse('{"__proto__": {"polluted": true}, "": 1, "a": 2}');
+        const restored = restore(overWire(optimize(data, { thresholdBytes: 0, validateTokenSavings: false })));
+        expect(Object.keys(restored)).toEqual(['__proto__', '', 'a']);
+        expect(({} as any).polluted).toBeUndefined();
+        expect(isDeepStrictEqual(restored, data)).toBe(true);
+    });
+
+    it('should envelope plain data that looks like a compressed payload', () => {
+        const lookalike = { m: { a: 'x' }, d: { a: 1 } };
+        expect(optimize(lookalike)).toHaveProperty('$enc', 'minify');
+        expect(restore(optimize(lookalike))).toEqual(lookalike);
+    });
+});
@@ -0,0 +1,97 @@
+import { Analyzer, optimize, optimizeWithReport, restore, SchemaDataSeparationStrategy, AbbreviatedKeysStrategy } from '../src/index';
+import { countTokens } from '../src/tokenizer';
+
+describe('Analyzer', () => {
+    const tickets = (count: number) => Array.from({ length: count }, (_, i) => ({
+        ticket_id: i,
+        ticket_subject: `Printer ${i % 7} is out of toner`,
+        assigned_team: i % 3 ? 'facilities_and_office_management' : 'it_support_second_level',
+        ...(i % 5 ? {} : { escalation_note: 'customer called twice' })
+    }));
+
+    it('should count distinct keys and key frequencies', () => {
+        const metrics = Analyzer.analyze({ list: tickets(10), meta: { ticket_id: 'x' } });
+        expect(metrics.distinctKeys).toBe(6);
+        expect(metrics.repeatedKeysEstimate).toBe(10 * 3 + 2 + 3 - 6);
+        expect(metrics.keyFrequencies.slice(0, 4)).toEqual([
+            { key: 'ticket_id', count: 11 },
+            { key: 'ticket_subject', count: 10 },
+            { key: 'assigned_team', count: 10 },
+            { key: 'escalation_note', count: 2 }
+        ]);
+
+        const wide = Object.fromEntries(Array.from({ length: 50 }, (_, i) => [`key_${i}`, i]));
+        expect(Analyzer.analyze(wide).keyFrequencies).toHaveLength(20);
+    });
+
+    it('should estimate abbreviation savings from real key repetition', () => {
+        // Every key appears once: a key map only adds bytes
+        const byId = Object.fromEntries(Array.from({ length: 60 }, (_, i) => [`session_${i}`, i]));
+        expect(Analyzer.analyze(byId).estimatedAbbrevSavings).toBe(0);
+
+        const metrics = Analyzer.analyze({ a: tickets(40), b: tickets(40) });
+        const actual = JSON.stringify(tickets(40)).length * 2 - JSON.stringify(new AbbreviatedKeysStrategy().compress({ a: tickets(40), b: tickets(40) })).length;
+        expect(metrics.estimatedAbbrevSavings).toBeGreaterThan(actual * 0.8);
+        expect(metrics.estimatedAbbrevSavings).toBeLessThan(actual * 1.2);
+    });
+
+    it('should only tokenize when given a tokenizer', () => {
+        expect(Analyzer.analyze(tickets(5)).tokens).toBeUndefined();
+        expect(Analyzer.analyze('text', { tokenizer: 'cl100k_base' }).tokens).toMatchObject({ exact: true, samples: 1 });
+    });
+
+    it('should measure small payloads exactly', () => {
+        const data = tickets(30);
+        const { tokens } = Analyzer.analyze(data, { tokenizer: 'cl100k_base' });
+        expect(tokens!.exact).toBe(true);
+        expect(tokens!.inputTokens).toBe(countTokens(data));
+
+        const schema = tokens!.strategies.find(estimate => estimate.strategy === 'schema-data-separation')!;
+        const measured = countTokens(new SchemaDataSeparationStrategy().compress(data));
+        expect(schema).toEqual({ strategy: 'schema-data-separation', tokens: measured, savedTokens: countTokens(data) - measured, low: schema.savedTokens, high: schema.savedTokens });
+        expect(tokens!.strategies.map(estimate => estimate.strategy)).toEqual(['schema-data-separation', 'abbreviated-keys', 'value-dictionary']);
+    });
+
+    it('should extrapolate large payloads from samples with bounds', () => {
+        const data = tickets(3000);
+        const { tokens } = Analyzer.analyze(data, { tokenizer: 'cl100k_base', samples: 4 });
+        expect(tokens).toMatchObject({ exact: false, samples: 4 });
+
+        const inputTokens = countTokens(data);
+        expect(Math.abs(tokens!.inputTokens - inputTokens) / inputTokens).toBeLessThan(0.05);
+
+        const schema = tokens!.strategies.find(estimate => estimate.strategy === 'schema-data-separation')!;
+        const saved = inputTokens - countTokens(new SchemaDataSeparationStrategy().compress(data));
+        expect(schema.low).toBeLessThanOrEqual(schema.savedTokens);
+        expect(schema.high).toBeGreaterThanOrEqual(schema.savedTokens);
+        expect(Math.abs(schema.savedTokens - saved) / saved).toBeLessThan(0.1);
+    });
+
+    it('should draw one seeded pick per step', () => {
+        const data = { list: Array.from({ length: 100 }, (_, i) => i) };
+        const { list } = Analyzer.sample(data, 4, 1);
+        list.forEach((item: number, i: number) => expect(Math.floor(item / 25)).toBe(i));
+        expect(Analyzer.sample(data, 4, 1)).toEqual({ list });
+        expect(Analyzer.sample(data, 4, 2)).not.toEqual({ list });
+    });
+
+    describe('estimated selection', () => {
+        it('should pick the largest sampled token savings', () => {
+            const data = tickets(300);
+            const { result, report } = optimizeWithReport(data, { selection: 'estimated' });
+            expect(report.rule).toBe('token-estimate');
+            expect(restore(result)).toEqual(data);
+
+            const best = report.candidates.reduce((top, candidate) => candidate.tokenEstimate!.savedTokens > top.tokenEstimate!.savedTokens ? candidate : top);
+            expect(report.selected).toBe(best.strategy);
+            expect(report.metrics.tokens!.strategies).toHaveLength(3);
+        });
+
+        it('should minify when no sample saves tokens', () => {
+            const data = { a: 1, b: [true, false] };
+            const { report } = optimizeWithReport(data, { selection: 'estimated', thresholdBytes: 0 });
+            expect(report).toMatchObject({ rule: 'token-estimate', selected: 'minify' });
+            expect(optimize(data, { selection: 'estimated', thresholdBytes: 0 })).toEqual(data);
+        });
+    });
+});
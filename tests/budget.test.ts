@@ -0,0 +1,85 @@
+import { optimize, optimizeWithBudget, restore, moreItemsMarker } from '../src/index';
+import { TokenCounter } from '../src/tokenizer';
+
+describe('Token Budget', () => {
+    const users = Array.from({ length: 360 }, (_, i) => ({
+        id: i,
+        name: `User ${i}`,
+        metadata: { createdBy: 'import-job', tags: ['a', 'b', 'c'] }
+    }));
+
+    it('should return the lossless output untouched when it already fits', () => {
+        const data = { users: users.slice(0, 5) };
+        const { result, report } = optimizeWithBudget(data, { maxTokens: 10000 });
+
+        expect(report.fits).toBe(true);
+        expect(report.reductions).toEqual([]);
+        expect(report.finalTokens).toBe(report.losslessTokens);
+        expect(restore(result)).toEqual(data);
+    });
+
+    it('should trim long arrays and report what was removed', () => {
+        const { result, report } = optimizeWithBudget({ users }, { maxTokens: 800 });
+        const restored = restore(result);
+
+        expect(report.fits).toBe(true);
+        expect(report.finalTokens).toBe(TokenCounter.count(result));
+        expect(report.finalTokens).toBeLessThanOrEqual(800);
+
+        // Records keep their shared schema: the count of removed items is only in the report
+        const trim = report.reductions.find(r => r.path === 'users')!;
+        expect(trim.step).toBe('trim-arrays');
+        expect(result.users).toHaveProperty('$s');
+        expect(restored.users.length + trim.removed).toBe(360);
+        expect(restored.users.every((user: any) => typeof user === 'object')).toBe(true);
+        expect(restored.users[0]).toEqual(users[0]);
+    });
+
+    it('should append a marker to trimmed arrays of values', () => {
+        const data = { ids: Array.from({ length: 400 }, (_, i) => `id-${i * 7919}`) };
+        const { result, report } = optimizeWithBudget(data, { maxTokens: 300 });
+        const trim = report.reductions.find(r => r.path === 'ids')!;
+        const restored = restore(result);
+        expect(restored.ids[restored.ids.length - 1]).toBe(moreItemsMarker(trim.removed));
+        expect(restored.ids.length - 1 + trim.removed).toBe(400);
+    });
+
+    it('should drop low-priority fields before trimming', () => {
+        const data = { users: users.slice(0, 40) };
+        const full = TokenCounter.count(optimize(data));
+        const { result, report } = optimizeWithBudget(data, {
+            maxTokens: full - 50,
+            lowPriorityPaths: ['users.*.metadata']
+        });
+
+        expect(report.fits).toBe(true);
+        expect(report.reductions).toHaveLength(40);
+        expect(report.reductions[3]).toEqual({ step: 'drop-fields', path: 'users[3].metadata', removed: 1, detail: 'dropped low-priority field' });
+        expect(restore(result).users).toHaveLength(40);
+        expect(restore(result).users[3]).toEqual({ id: 3, name: 'User 3' });
+    });
+
+    it('should truncate long strings when arrays are not the problem', () => {
+        const data = { summary: 'lorem ipsum dolor sit amet '.repeat(200), id: 7 };
+        const { result, report } = optimizeWithBudget(data, { maxTokens: 60 });
+
+        expect(report.fits).toBe(true);
+        expect(report.reductions).toHaveLength(1);
+        expect(report.reductions[0]).toMatchObject({ step: 'truncate-strings', path: 'summary' });
+        expect(restore(result).summary.endsWith('…')).toBe(true);
+        expect(restore(result).id).toBe(7);
+    });
+
+    it('should report fits: false when no reduction is enough', () => {
+        const data = Object.fromEntries(Array.from({ length: 50 }, (_, i) => [`field_${i}`, i]));
+        const { report } = optimizeWithBudget(data, { maxTokens: 5 });
+
+        expect(report.fits).toBe(false);
+        expect(report.finalTokens).toBeGreaterThan(5);
+    });
+
+    it('should accept maxTokens as a plain optimize option', () => {
+        const result = optimize({ users }, { maxTokens: 800 });
+        expect(TokenCounter.count(result)).toBeLessThanOrEqual(800);
+    });
+});
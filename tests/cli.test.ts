@@ -0,0 +1,143 @@
+import { run, CliIO, EXIT_OK, EXIT_USAGE, EXIT_ROUND_TRIP } from '../src/cli';
+import { restore, SchemaDataSeparationStrategy } from '../src/index';
+
+const createIO = (files: Record<string, string> = {}, stdin = '') => {
+    const out: string[] = [];
+    const err: string[] = [];
+    const io: CliIO = {
+        stdout: text => out.push(text),
+        stderr: text => err.push(text),
+        readStdin: async () => stdin,
+        readFile: async path => {
+            if (!(path in files)) throw new Error(`ENOENT: no such file, open '${path}'`);
+            return files[path];
+        }
+    };
+    return { io, stdout: () => out.join(''), stderr: () => err.join('') };
+};
+
+describe('CLI', () => {
+    const users = Array.from({ length: 40 }, (_, i) => ({
+        user_id: i,
+        display_name: `User ${i}`,
+        is_active: i % 2 === 0
+    }));
+    const json = JSON.stringify(users);
+    const ndjson = users.map(user => JSON.stringify(user)).join('\n') + '\n';
+
+    it('should optimize a file and restore the output', async () => {
+        const optimized = createIO({ 'users.json': json });
+        expect(await run(['optimize', 'users.json'], optimized.io)).toBe(EXIT_OK);
+        const payload = JSON.parse(optimized.stdout());
+        expect(payload).toHaveProperty('$s');
+
+        const restored = createIO({}, optimized.stdout());
+        expect(await run(['restore'], restored.io)).toBe(EXIT_OK);
+        expect(JSON.parse(restored.stdout())).toEqual(users);
+    });
+
+    it('should read NDJSON from stdin and write NDJSON back', async () => {
+        const optimized = createIO({}, ndjson);
+        expect(await run(['optimize', '--aggressive', '--unsafe', '--threshold', '0'], optimized.io)).toBe(EXIT_OK);
+        expect(restore(JSON.parse(optimized.stdout()))).toHaveLength(users.length);
+
+        const restored = createIO({ 'out.json': optimized.stdout() });
+        expect(await run(['restore', '--ndjson', 'out.json'], restored.io)).toBe(EXIT_OK);
+        expect(restored.stdout().trim().split('\n')).toHaveLength(users.length);
+    });
+
+    it('should pass optimizer flags through', async () => {
+        const small = createIO({}, JSON.stringify(users.slice(0, 3)));
+        await run(['optimize', '--threshold=100000'], small.io);
+        expect(JSON.parse(small.stdout())).toEqual(users.slice(0, 3));
+
+        const enveloped = createIO({}, json);
+        await run(['optimize', '--envelope', '--tokenizer', 'o200k_base', '--pretty'], enveloped.io);
+        expect(JSON.parse(enveloped.stdout())).toMatchObject({ $enc: 'schema-data-separation', $ver: 1 });
+        expect(enveloped.stdout()).toContain('\n  "$enc"');
+    });
+
+    it('should print a per-strategy table', async () => {
+        const { io, stdout } = createIO({ 'users.json': json });
+        expect(await run(['compare', 'users.json'], io)).toBe(EXIT_OK);
+
+        const lines = stdout().trim().split('\n');
+        expect(lines[0]).toMatch(/^strategy\s+bytes\s+tokens\s+saved\s+round-trip$/);
+        expect(lines.map(line => line.split(/\s+/)[0])).toEqual(expect.arrayContaining(['minify', 'abbreviated-keys', 'schema-data-separation', 'csv', 'auto']));
+        expect(stdout()).toContain('auto (schema-data-separation)');
+        expect(stdout()).not.toContain('FAILED');
+    });
+
+    it('should print compare and analyze reports as JSON', async () => {
+        const compared = createIO({}, json);
+        await run(['compare', '--json'], compared.io);
+        const rows = JSON.parse(compared.stdout());
+        const minified = rows.find((row: any) => row.strategy === 'minify');
+        expect(minified).toEqual({ strategy: 'minify', bytes: json.length, tokens: expect.any(Number), saved: 0, roundTrip: true });
+
+        const analyzed = createIO({}, json);
+        await run(['analyze', '--json'], analyzed.io);
+        expect(JSON.parse(analyzed.stdout())).toMatchObject({
+            totalBytes: expect.any(Number),
+            tokens: minified.tokens,
+            distinctKeys: 3,
+            estimates: { inputTokens: minified.tokens, exact: true }
+        });
+
+        const table = createIO({ 'a.json': json, 'b.json': '{"x": 1}' });
+        await run(['analyze', 'a.json', 'b.json'], table.io);
+        expect(table.stdout()).toMatch(/^a\.json\n\s*totalBytes\s+\d+/);
+        expect(table.stdout()).toContain('b.json\n');
+        expect(table.stdout()).toMatch(/topKeys\s+user_id \(40\), display_name \(40\), is_active \(40\)/);
+        expect(table.stdout()).toMatch(/saved:schema-data-separation\s+\d+/);
+    });
+
+    it('should exit with 2 when the round trip fails', async () => {
+        // A broken decoder stands in for a real round-trip bug
+        const spy = jest.spyOn(SchemaDataSeparationStrategy.prototype, 'decompress').mockReturnValue([]);
+        try {
+            const optimized = createIO({}, json);
+            expect(await run(['optimize'], optimized.io)).toBe(EXIT_ROUND_TRIP);
+            expect(optimized.stdout()).toBe('');
+            expect(optimized.stderr()).toContain('round trip failed');
+
+            const compared = createIO({}, json);
+            expect(await run(['compare'], compared.io)).toBe(EXIT_ROUND_TRIP);
+            expect(compared.stdout()).toMatch(/schema-data-separation\s.*FAILED/);
+
+            const unverified = createIO({}, json);
+            expect(await run(['optimize', '--no-verify'], unverified.io)).toBe(EXIT_OK);
+        } finally {
+            spy.mockRestore();
+        }
+    });
+
+    it('should restore text output with --format', async () => {
+        const { io, stdout } = createIO({}, 'id,name\n1,Ann\n2,"Bob, Jr."\n');
+        expect(await run(['restore', '--format', 'csv'], io)).toBe(EXIT_OK);
+        expect(JSON.parse(stdout())).toEqual([{ id: 1, name: 'Ann' }, { id: 2, name: 'Bob, Jr.' }]);
+    });
+
+    it('should report usage and input errors with exit code 1', async () => {
+        const cases: [string[], RegExp][] = [
+            [[], /Usage: llm-compress/],
+            [['shrink'], /Unknown command "shrink"/],
+            [['optimize', '--fast'], /Unknown option --fast/],
+            [['optimize', '--threshold'], /--threshold needs a value/],
+            [['optimize', '--threshold', 'big'], /--threshold must be a number/],
+            [['restore', '--format', 'yaml'], /Unknown --format "yaml"/],
+            [['optimize', 'missing.json'], /missing\.json: ENOENT/],
+            [['optimize', 'bad.json'], /bad\.json: not valid JSON/],
+            [['optimize', 'bad.ndjson'], /bad\.ndjson: line 2 is not valid JSON/]
+        ];
+        for (const [argv, message] of cases) {
+            const { io, stderr } = createIO({ 'bad.json': '{"a": ', 'bad.ndjson': '{"a": 1}\n{"a": \n' });
+            expect(await run(argv, io)).toBe(EXIT_USAGE);
+            expect(stderr()).toMatch(message);
+        }
+
+        const help = createIO();
+        expect(await run(['--help'], help.io)).toBe(EXIT_OK);
+        expect(help.stdout()).toContain('Commands:');
+    });
+});
@@ -0,0 +1,152 @@
+import { isDeepStrictEqual } from 'util';
+import { optimize, restore, CompactTextStrategy, CompactTextParseError, Optimizer, SchemaDataSeparationStrategy, AbbreviatedKeysStrategy, CsvStrategy } from '../src/index';
+import { TokenCounter } from '../src/tokenizer';
+
+const strategy = new CompactTextStrategy();
+
+// Token corpus: compact text wins on flat records and stays within 30% of minified JSON on the rest
+const corpus: Record<string, any> = {
+    'flat records': Array.from({ length: 50 }, (_, i) => ({
+        id: i,
+        name: `User ${i}`,
+        email: `user${i}@example.com`,
+        role: i % 4 === 0 ? 'admin' : 'member',
+        active: i % 3 !== 0
+    })),
+    'nested config': {
+        service: 'billing-api',
+        version: '2.4.1',
+        database: { host: 'db.internal', port: 5432, pool: { min: 2, max: 20 }, replicas: ['db-r1.internal', 'db-r2.internal'] },
+        features: { invoices: true, refunds: false, webhooks: { enabled: true, retries: 5, endpoints: ['https://hooks.example.com/a'] } },
+        limits: [{ plan: 'free', requests: 1000 }, { plan: 'pro', requests: 100000 }]
+    },
+    'event log': Array.from({ length: 30 }, (_, i) => ({
+        ts: `2024-06-01T10:${String(i).padStart(2, '0')}:00Z`,
+        type: ['click', 'view', 'purchase'][i % 3],
+        user: { id: i % 7, tags: i % 2 ? ['beta'] : [] },
+        payload: i % 3 === 2 ? { amount: i * 3.5, currency: 'EUR' } : null
+    })),
+    'number series': { sensor: 'temp-1', readings: Array.from({ length: 100 }, (_, i) => 20 + (i % 10) / 2) }
+};
+
+describe('Compact Text Strategy', () => {
+    it('should render objects with indentation, safe strings unquoted and tables inline', () => {
+        const data = {
+            name: 'Acme',
+            tags: ['red', 'green'],
+            users: [{ id: 1, name: 'Alice' }, { id: 2, name: 'Smith, Bob' }],
+            config: { retries: 3, empty: {} },
+            events: [[], { type: 'click', user: { id: 1 } }, 'text']
+        };
+        expect(strategy.compress(data)).toBe([
+            'name: Acme',
+            'tags[2]: red,green',
+            'users[2]{id,name}:',
+            '  1,Alice',
+            '  2,"Smith, Bob"',
+            'config:',
+            '  retries: 3',
+            '  empty: {}',
+            'events[3]:',
+            '  - [0]:',
+            '  - type: click',
+            '    user:',
+            '      id: 1',
+            '  - text'
+        ].join('\n'));
+    });
+
+    it('should quote strings that would read as something else', () => {
+        const data = JSON.parse(JSON.stringify({
+            values: ['123', 'true', 'null', '', ' padded', '-dash', 'a: b', 'a,b', '[x]', '{}', 'quote"', 'line\nbreak', 'back\\slash'],
+            'key with: colon': 1,
+            '': 2,
+            '-': 3
+        }).replace('"-":3', '"-":3,"__proto__":{"polluted":true}'));
+
+        const restored = strategy.decompress(strategy.compress(data));
+        expect(isDeepStrictEqual(restored, data)).toBe(true);
+        expect(Object.keys(restored)).toContain('__proto__');
+        expect(({} as any).polluted).toBeUndefined();
+    });
+
+    it('should round-trip scalars, empty containers and deep nesting', () => {
+        const samples = [
+            null, true, 0, -1.5e-7, 'plain', 'a: b', '', [], {}, [[]], [{}], [[1, 2], ['a']],
+            { a: [] }, { a: {} }, [null, 'x', 1], { a: { b: { c: [{ d: [{ e: 1 }, 2] }] } } },
+            [{ id: 1, tags: ['x'] }, { id: 2 }], [{ a: 1 }, { a: 1, b: 2 }], [{ 'x y': 'a: b' }, { '': { '': [] } }],
+            [{ a: [{ b: [{}] }] }], 'https://example.com/a:b', '10:30', 'ends with:'
+        ];
+        for (const sample of samples) {
+            expect(isDeepStrictEqual(strategy.decompress(strategy.compress(sample)), sample)).toBe(true);
+        }
+    });
+
+    it.each(Object.keys(corpus))('should round-trip the %s corpus', (name) => {
+        expect(isDeepStrictEqual(strategy.decompress(strategy.compress(corpus[name])), corpus[name])).toBe(true);
+    });
+
+    it('should report token counts against minified JSON for several encodings', () => {
+        const encodings: Record<string, (data: any) => any> = {
+            'minified JSON': (data) => data,
+            'abbreviated-keys': (data) => new AbbreviatedKeysStrategy().compress(data),
+            'schema-data-separation': (data) => new SchemaDataSeparationStrategy().compress(data),
+            'csv': (data) => new CsvStrategy().compress(data),
+            'compact-text': (data) => strategy.compress(data)
+        };
+        const counts: Record<string, Record<string, number>> = {};
+        for (const [name, data] of Object.entries(corpus)) {
+            counts[name] = Object.fromEntries(Object.entries(encodings).map(([encoding, encode]) => [encoding, TokenCounter.count(encode(data))]));
+        }
+
+        // Quotes and braces dominate flat records, so compact text wins clearly there...
+        expect(counts['flat records']['compact-text']).toBeLessThan(counts['flat records']['minified JSON'] * 0.7);
+        // ...while per-line indentation costs tokens on deeply nested records, where schema separation wins
+        expect(counts['event log']['schema-data-separation']).toBeLessThan(counts['event log']['compact-text']);
+        for (const name of Object.keys(corpus)) {
+            expect(counts[name]['compact-text']).toBeLessThan(counts[name]['minified JSON'] * 1.3);
+        }
+    });
+
+    it('should never make the optimizer output more expensive', () => {
+        for (const data of Object.values(corpus)) {
+            const json = TokenCounter.count(optimize(data, { thresholdBytes: 0 }));
+            const output = optimize(data, { thresholdBytes: 0, allowTextOutput: true });
+            // Text output is enveloped; the text itself is what reaches the model
+            const text = TokenCounter.count(typeof output.$p === 'string' ? output.$p : output);
+            expect(text).toBeLessThanOrEqual(json);
+        }
+    });
+
+    it('should reject malformed text', () => {
+        const invalid = [
+            'items[3]: a,b',           // Length mismatch
+            'rows[1]{a,b}:\n  1',      // Row width mismatch
+            'a:\n   b: 1',             // Odd indentation
+            'a: 1\n  b: 2',            // Unexpected indentation
+            'a: x: y',                 // Unsafe unquoted value
+            'a: "open',                // Unterminated string
+            'a',                       // Not a field... but a valid scalar, see below
+        ];
+        for (const text of invalid.slice(0, -1)) {
+            expect(() => strategy.decompress(text)).toThrow(CompactTextParseError);
+        }
+        expect(strategy.decompress('a')).toBe('a');
+    });
+
+    describe('Optimizer', () => {
+        it('should be available through getStrategy()', () => {
+            const optimizer = new Optimizer();
+            expect(optimizer.getStrategy('compact-text')).toBeInstanceOf(CompactTextStrategy);
+        });
+
+        it('should compete by tokens when text output is allowed', () => {
+            const data = { total: 50, users: corpus['flat records'] };
+            const payload = optimize(data, { allowTextOutput: true, thresholdBytes: 0 });
+            expect(payload.$enc).toBe('compact-text');
+            expect(typeof payload.$p).toBe('string');
+            expect(restore(payload.$p, { format: 'compact-text' })).toEqual(data);
+            expect(restore(payload)).toEqual(data);
+        });
+    });
+});
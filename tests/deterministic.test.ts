@@ -0,0 +1,81 @@
+import { optimize, restore, checkStability, canonicalize } from '../src/index';
+import { permuteKeys } from '../src/deterministic';
+
+describe('Deterministic Output', () => {
+    const orders = Array.from({ length: 40 }, (_, i) => ({
+        order_id: i,
+        customer_name: `Customer ${i}`,
+        shipping_status: i % 3 ? 'in_transit_to_destination' : 'awaiting_pickup_at_warehouse',
+        ...(i % 4 ? { gift_message: 'Happy birthday!' } : {}),
+        address: { city: i % 2 ? 'Lyon' : 'Paris', zip_code: `690${i}` }
+    }));
+    const mixed = {
+        request: { tenant_identifier: 'acme', requested_by_user: 'ann' },
+        accounts: Object.fromEntries(Array.from({ length: 30 }, (_, i) => [
+            `acct_${i}`,
+            { account_display_name: `Account ${i}`, primary_email_address: `a${i}@example.com`, is_enabled_flag: i % 2 === 0 }
+        ]))
+    };
+
+    const configurations: [string, any, any][] = [
+        ['schema separation', orders, {}],
+        ['abbreviated keys', mixed, {}],
+        ['ultra compact', mixed, { aggressive: true, unsafe: true }],
+        ['nested schemas', orders, { flattenNested: true, numeric: true }],
+        ['exhaustive selection', orders, { selection: 'exhaustive', timeBudgetMs: 0 }],
+        ['text output', orders, { allowTextOutput: true }],
+        ['envelope', mixed, { envelope: true }]
+    ];
+
+    it.each(configurations)('should give identical output for permuted keys with %s', (_, data, options) => {
+        const report = checkStability(data, { ...options, deterministic: true });
+        expect(report).toEqual({ stable: true, runs: 20, outputs: [expect.any(String)] });
+    });
+
+    it('should detect unstable output without the option', () => {
+        const report = checkStability(mixed, {}, { runs: 5 });
+        expect(report.stable).toBe(false);
+        expect(report.outputs.length).toBeGreaterThan(1);
+    });
+
+    it('should restore the data with sorted keys', () => {
+        const result = optimize(permuteKeys(mixed, 7), { deterministic: true });
+        const restored = restore(result);
+        expect(restored).toEqual(mixed);
+        expect(JSON.stringify(restored)).toBe(JSON.stringify(canonicalize(mixed)));
+        expect(Object.keys(restored.request)).toEqual(['requested_by_user', 'tenant_identifier']);
+    });
+
+    it('should put a pinned key map first in every map', () => {
+        const keyMap = { tenant_identifier: 't', accounts: 's', unused_key: 'u' };
+        const result = optimize(mixed, { deterministic: true, keyMap });
+
+        expect(Object.keys(result.m).slice(0, 3)).toEqual(['tenant_identifier', 'accounts', 'unused_key']);
+        expect(result.m).toMatchObject(keyMap);
+        expect(new Set(Object.values(result.m)).size).toBe(Object.keys(result.m).length);
+        expect(result.d.s).toBeDefined();
+        expect(restore(result)).toEqual(mixed);
+
+        // Two different requests share a byte-identical prefix
+        const other = optimize({ ...mixed, request: { tenant_identifier: 'globex', requested_by_user: 'bob' } }, { deterministic: true, keyMap });
+        const prefix = '{"m":{"tenant_identifier":"t","accounts":"s","unused_key":"u",';
+        expect(JSON.stringify(result).startsWith(prefix)).toBe(true);
+        expect(JSON.stringify(other).startsWith(prefix)).toBe(true);
+    });
+
+    it('should reject a pinned key map that reuses a short key', () => {
+        expect(() => optimize(mixed, { keyMap: { accounts: 'a', request: 'a' } })).toThrow(/more than one key/);
+    });
+
+    it('should keep array order', () => {
+        const list = [{ b: 1, a: 2 }, { a: 3, b: 4 }];
+        expect(canonicalize(list)).toEqual([{ a: 2, b: 1 }, { a: 3, b: 4 }]);
+        expect(JSON.stringify(canonicalize(JSON.parse('{"z": 1, "__proto__": 2}')))).toBe('{"__proto__":2,"z":1}');
+    });
+
+    it('should keep dates and other class instances as they are', () => {
+        const when = new Date(0);
+        expect(canonicalize({ b: when, a: 1 })).toEqual({ a: 1, b: when });
+        expect(JSON.stringify(optimize({ when }, { deterministic: true }))).toBe('{"when":"1970-01-01T00:00:00.000Z"}');
+    });
+});
@@ -0,0 +1,61 @@
+import { optimize, restore, FORMAT_VERSION, EnvelopeVersionError, UnknownStrategyError } from '../src/index';
+
+describe('Envelope Mode', () => {
+    const listData = {
+        users: Array.from({ length: 40 }, (_, i) => ({
+            id: i,
+            name: `User ${i}`,
+            email: `user${i}@example.com`
+        }))
+    };
+
+    it('should record the strategy name and format version', () => {
+        const result = optimize(listData, { envelope: true });
+        expect(result.$enc).toBe('schema-data-separation');
+        expect(result.$ver).toBe(FORMAT_VERSION);
+        expect(result.$p.users).toHaveProperty('$s');
+        expect(restore(result)).toEqual(listData);
+    });
+
+    it('should record minify when the original data is returned', () => {
+        const small = { id: 1, name: 'Alice' };
+        const result = optimize(small, { envelope: true });
+        expect(result).toEqual({ $enc: 'minify', $ver: FORMAT_VERSION, $p: small });
+        expect(restore(result)).toEqual(small);
+    });
+
+    it('should not corrupt uncompressed data that looks like a compressed payload', () => {
+        // Without an envelope, restore() would treat this as an abbreviated-keys payload
+        const lookalike = { m: { a: 'x' }, d: { a: 1 } };
+        const result = optimize(lookalike, { envelope: true });
+        expect(restore(result)).toEqual(lookalike);
+
+        const schemaLookalike = { table: { $s: ['a'], $d: [[1]] } };
+        expect(restore(optimize(schemaLookalike, { envelope: true }))).toEqual(schemaLookalike);
+    });
+
+    it('should decode UltraCompact payloads with the recorded strategy', () => {
+        const nested = {
+            config: Object.fromEntries(Array.from({ length: 30 }, (_, i) => [`setting_${i}`, { enabled: i % 2 === 0, label: `Setting ${i}` }]))
+        };
+        const result = optimize(nested, { envelope: true, aggressive: true, thresholdBytes: 0, validateTokenSavings: false });
+        expect(result.$enc).toBe('ultra-compact');
+        expect(restore(result)).toEqual(nested);
+    });
+
+    describe('strict mode', () => {
+        it('should throw a typed error on mismatched versions', () => {
+            const future = { $enc: 'minify', $ver: FORMAT_VERSION + 1, $p: { a: 1 } };
+            expect(() => restore(future, { strict: true })).toThrow(EnvelopeVersionError);
+            expect(() => restore({ $enc: 'minify', $ver: 'x', $p: 1 }, { strict: true })).toThrow(EnvelopeVersionError);
+            // Lenient mode still decodes with the named strategy
+            expect(restore(future)).toEqual({ a: 1 });
+        });
+
+        it('should throw a typed error on unknown strategies', () => {
+            const unknown = { $enc: 'brotli', $ver: FORMAT_VERSION, $p: { a: 1 } };
+            expect(() => restore(unknown, { strict: true })).toThrow(UnknownStrategyError);
+            expect(restore(unknown)).toEqual({ a: 1 });
+        });
+    });
+});
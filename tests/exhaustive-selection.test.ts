@@ -0,0 +1,63 @@
+import { Optimizer } from '../src/optimizer';
+import { Analyzer, restore } from '../src/index';
+import { TokenCounter } from '../src/tokenizer';
+
+describe('Exhaustive Selection', () => {
+    const optimizer = new Optimizer();
+
+    const mixedData = {
+        users: Array.from({ length: 30 }, (_, i) => ({ id: i, name: `User ${i}`, status: 'awaiting_customer_response' })),
+        settings: Object.fromEntries(Array.from({ length: 20 }, (_, i) => [`feature_flag_${i}`, { enabled: i % 2 === 0 }]))
+    };
+
+    it('should return the cheapest output by real token count', () => {
+        const exhaustive = optimizer.optimize(mixedData, { selection: 'exhaustive', thresholdBytes: 0, timeBudgetMs: Infinity });
+        const exhaustiveTokens = TokenCounter.count(exhaustive);
+
+        for (const name of ['schema-data-separation', 'abbreviated-keys', 'ultra-compact', 'value-dictionary']) {
+            const output = optimizer.getStrategy(name)!.compress(mixedData);
+            expect(exhaustiveTokens).toBeLessThanOrEqual(TokenCounter.count(output));
+        }
+        expect(exhaustiveTokens).toBeLessThanOrEqual(TokenCounter.count(mixedData));
+        expect(restore(exhaustive)).toEqual(mixedData);
+    });
+
+    it('should only consider unsafe UltraCompact when unsafe is set', () => {
+        // Character counts make 1/0 cheaper than true/false
+        const tokenizer = (text: string) => text.length;
+        const flags = { enabled: Array.from({ length: 200 }, (_, i) => i % 3 === 0) };
+
+        const safe = optimizer.optimize(flags, { selection: 'exhaustive', thresholdBytes: 0, timeBudgetMs: Infinity, tokenizer });
+        expect(restore(safe)).toEqual(flags);
+
+        const unsafe = optimizer.optimize(flags, { selection: 'exhaustive', thresholdBytes: 0, timeBudgetMs: Infinity, tokenizer, unsafe: true });
+        expect(JSON.stringify(unsafe).length).toBeLessThan(JSON.stringify(safe).length);
+        expect(restore(unsafe).enabled[0]).toBe(1);
+    });
+
+    it('should use the configured tokenizer', () => {
+        const tokenizer = jest.fn((text: string) => text.length);
+        optimizer.optimize(mixedData, { selection: 'exhaustive', thresholdBytes: 0, tokenizer });
+        expect(tokenizer).toHaveBeenCalled();
+    });
+
+    it('should stop trying strategies once the time budget is spent', () => {
+        const tokenizer = jest.fn((text: string) => text.length);
+        const result = optimizer.optimize(mixedData, { selection: 'exhaustive', thresholdBytes: 0, timeBudgetMs: -1, tokenizer, validateTokenSavings: false });
+        // Only the uncompressed baseline was measured
+        expect(tokenizer).toHaveBeenCalledTimes(1);
+        expect(result).toEqual(mixedData);
+    });
+
+    it('should rank large payloads on a sample and compress the full data', () => {
+        const large = Array.from({ length: 2000 }, (_, i) => ({ id: i, name: `User ${i}`, role: 'viewer' }));
+        const result = optimizer.optimize(large, { selection: 'exhaustive', sampleThresholdBytes: 1024, sampleSize: 20, timeBudgetMs: Infinity });
+        expect(result.$d).toHaveLength(2000);
+        expect(restore(result)).toEqual(large);
+    });
+
+    it('Analyzer.sample should keep evenly spaced items', () => {
+        const data = { list: Array.from({ length: 100 }, (_, i) => i), name: 'x' };
+        expect(Analyzer.sample(data, 4)).toEqual({ list: [0, 25, 50, 75], name: 'x' });
+    });
+});
@@ -0,0 +1,92 @@
+import { optimize, optimizeWithInstructions, describeFormat, restore, AbbreviatedKeysStrategy, SchemaDataSeparationStrategy, ValueDictionaryStrategy, TextOutputFormat } from '../src/index';
+import { TokenCounter } from '../src/tokenizer';
+
+describe('Format Instructions', () => {
+    const records = Array.from({ length: 40 }, (_, i) => ({
+        id: i,
+        customer_name: `Customer ${i}`,
+        subscription_status: i % 2 ? 'active' : 'cancelled'
+    }));
+
+    it('should need no instructions for plain JSON', () => {
+        expect(describeFormat({ a: 1 })).toEqual({ strategy: 'minify', text: '', tokens: 0 });
+    });
+
+    it('should explain schema separation and only mention features in use', () => {
+        const plain = describeFormat(new SchemaDataSeparationStrategy().compress(records));
+        expect(plain.strategy).toBe('schema-data-separation');
+        expect(plain.text).toContain('"$s"');
+        expect(plain.text).not.toContain('$u');
+        expect(plain.text).not.toContain('$n');
+        expect(plain.tokens).toBe(TokenCounter.count(plain.text));
+
+        const sparse = [{ id: 1, note: 'x' }, { id: 2 }, { id: 3, note: 'y' }];
+        expect(describeFormat(new SchemaDataSeparationStrategy().compress(sparse)).text).toContain('"$u"');
+
+        const numeric = new SchemaDataSeparationStrategy({ numeric: true, flattenNested: true }).compress({
+            ids: Array.from({ length: 100 }, (_, i) => i + 1),
+            rows: Array.from({ length: 20 }, (_, i) => ({ ts: 1718000000000 + i * 1000, geo: { lat: i, lng: -i } }))
+        });
+        const numericText = describeFormat(numeric).text;
+        expect(numericText).toContain('"$r"');
+        expect(numericText).toContain('"$n"');
+        expect(numericText).toContain('nested object');
+    });
+
+    it('should list only the short keys that occur in the data', () => {
+        const payload = new AbbreviatedKeysStrategy().compress({ user_name: 'a', nested: { email_address: 'b' } });
+        payload.m.unused_key = 'zz';
+        const { text, strategy } = describeFormat(payload);
+
+        expect(strategy).toBe('abbreviated-keys');
+        expect(text).toContain(`${payload.m.user_name}=user_name`);
+        expect(text).toContain(`${payload.m.email_address}=email_address`);
+        expect(text).not.toContain('unused_key');
+        expect(describeFormat(payload, { unsafe: true }).text).toContain('1 (true)');
+    });
+
+    it('should explain value dictionaries, envelopes and text formats', () => {
+        const dictionary = new ValueDictionaryStrategy({ minOccurrences: 2 }).compress(records.map(r => r.subscription_status));
+        expect(describeFormat(dictionary).text).toContain('"~N"');
+
+        const enveloped = describeFormat(optimize(records, { envelope: true }));
+        expect(enveloped.text).toContain('"$p"');
+        expect(enveloped.text).toContain('"$s"');
+
+        // The envelope names the strategy; a minified payload shaped like a key map is literal data
+        const literal = describeFormat({ $enc: 'minify', $ver: 1, $p: { m: { x: 'y' }, d: { y: 1 } } });
+        expect(literal.strategy).toBe('minify');
+        expect(literal.text).toBe('The payload {"$enc", "$ver", "$p"} holds the data in "$p".');
+
+        const csv = describeFormat('id,name\n1,a\n', { format: 'csv' });
+        expect(csv.strategy).toBe('csv');
+        expect(csv.text).toContain('CSV');
+    });
+
+    it('should return the payload with matching instructions and token accounting', () => {
+        const { result, instructions, payloadTokens, totalTokens, originalTokens } = optimizeWithInstructions(records);
+
+        expect(instructions.strategy).toBe('schema-data-separation');
+        expect(result).toEqual(optimize(records));
+        expect(payloadTokens).toBe(TokenCounter.count(result));
+        expect(totalTokens).toBe(payloadTokens + instructions.tokens);
+        expect(totalTokens).toBeLessThan(originalTokens);
+        expect(restore(result)).toEqual(records);
+    });
+
+    it('should fall back to plain JSON when instructions eat the savings', () => {
+        const small = [{ id: 1, name: 'a' }, { id: 2, name: 'b' }, { id: 3, name: 'c' }];
+        const { result, instructions, totalTokens, originalTokens } = optimizeWithInstructions(small, { thresholdBytes: 0, validateTokenSavings: false });
+
+        expect(result).toEqual(small);
+        expect(instructions.text).toBe('');
+        expect(totalTokens).toBe(originalTokens);
+    });
+
+    it('should describe text output chosen by the optimizer', () => {
+        const { result, instructions } = optimizeWithInstructions(records, { allowTextOutput: true });
+        expect(typeof result).toBe('string');
+        expect(['csv', 'tsv', 'markdown-table', 'compact-text']).toContain(instructions.strategy);
+        expect(restore(result, { format: instructions.strategy as TextOutputFormat })).toEqual(records);
+    });
+});
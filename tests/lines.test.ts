@@ -0,0 +1,112 @@
+import {
+    optimize, optimizeLines, restore, describeFormat, detectFormat, countTokens, LineGroupsStrategy, LineGroupsError, LineParseError, parseLines
+} from '../src/index';
+import { run, CliIO, EXIT_OK } from '../src/cli';
+
+const toLines = (records: any[]): string => records.map(record => JSON.stringify(record)).join('\n') + '\n';
+
+describe('JSON Lines', () => {
+    // Interleaved log records of three event types; errors sometimes carry a stack trace
+    const events = Array.from({ length: 60 }, (_, i) => {
+        const base = { ts: `2024-06-01T12:00:${String(i).padStart(2, '0')}Z`, level: 'info' };
+        switch (i % 3) {
+            case 0: return { ...base, event: 'login', user_id: 100 + i, ip_address: `10.0.0.${i}` };
+            case 1: return { ...base, event: 'purchase', order_id: `ord_${i}`, amount_cents: i * 250, currency: 'EUR' };
+            default: return { ...base, level: 'error', event: 'payment_failed', reason: 'card_declined', ...(i % 4 ? {} : { stack: 'at charge (billing.js:42)' }) };
+        }
+    });
+
+    it('should group lines by shape and keep their order', () => {
+        const result = optimizeLines(toLines(events));
+        expect(detectFormat(result)).toBe('line-groups');
+        expect(result.$g).toHaveLength(3);
+        expect(result.$o).toBe('012'.repeat(20));
+        // The optional stack trace joins its event type as a union schema
+        expect(result.$g[2].$s).toContain('stack');
+
+        expect(restore(result)).toEqual(events);
+        expect(countTokens(result)).toBeLessThan(countTokens(optimize(events)));
+    });
+
+    it('should leave out the order when groups follow each other', () => {
+        const sorted = [...events].sort((a, b) => a.event.localeCompare(b.event));
+        const result = optimizeLines(toLines(sorted).split('\n'));
+        expect(result.$o).toBeUndefined();
+        expect(restore(result)).toEqual(sorted);
+
+        // Lines of one shape are a plain schema-separated list
+        const logins = events.filter(event => event.event === 'login');
+        expect(optimizeLines(toLines(logins))).toEqual(optimize(logins));
+    });
+
+    it('should keep values that are not objects in one group', () => {
+        const mixed = [...events.slice(0, 12), [1, 2], 'plain text', 42, null, ...events.slice(12, 24)];
+        const strategy = new LineGroupsStrategy();
+        const groups = strategy.group(mixed);
+        expect(new Set(groups.slice(12, 16)).size).toBe(1);
+        expect(strategy.decompress(strategy.compress(mixed))).toEqual(mixed);
+    });
+
+    it('should fall back to a list of group numbers past 36 groups', () => {
+        const shapes = Array.from({ length: 80 }, (_, i) => ({ [`field_${i % 40}`]: i }));
+        const compressed = new LineGroupsStrategy().compress(shapes);
+        expect(compressed.$g).toHaveLength(40);
+        expect(compressed.$o).toEqual(shapes.map((_, i) => i % 40));
+        expect(restore(compressed)).toEqual(shapes);
+    });
+
+    it('should reject an order that does not fit the groups', () => {
+        const strategy = new LineGroupsStrategy();
+        const { $g } = strategy.compress(events);
+        expect(() => strategy.decompress({ $g, $o: '012'.repeat(19) + '013' })).toThrow(LineGroupsError);
+        expect(() => strategy.decompress({ $g, $o: '012'.repeat(19) + '01.' })).toThrow('$o entry 59 does not name one of the 3 groups');
+        expect(() => strategy.decompress({ $g, $o: [0, 1.5] })).toThrow('$o entry 1 does not name one of the 3 groups');
+        expect(() => strategy.decompress({ $g, $o: '012'.repeat(19) + '011' })).toThrow('Group 1 has 20 records but $o lists 21');
+        expect(() => restore({ $g, $o: '0' })).toThrow(LineGroupsError);
+    });
+
+    it('should report the line of invalid JSON', () => {
+        expect(parseLines('{"a":1}\r\n\n{"a":2}')).toEqual([{ a: 1 }, { a: 2 }]);
+        expect(() => parseLines('{"a":1}\n\n{"a":')).toThrow(LineParseError);
+        expect(() => parseLines('{"a":1}\n\n{"a":')).toThrow(/^Line 3 is not valid JSON/);
+    });
+
+    it('should validate, threshold and envelope like optimize()', () => {
+        expect(optimizeLines('{"a":1}\n{"b":2}\n')).toEqual([{ a: 1 }, { b: 2 }]);
+        expect(optimizeLines('', { thresholdBytes: 0 })).toEqual([]);
+
+        const lookalike = [{ $g: [[1]] }];
+        expect(restore(optimizeLines(toLines(lookalike), { thresholdBytes: 0 }))).toEqual(lookalike);
+        expect(optimizeLines(toLines(events), { envelope: true })).toMatchObject({ $enc: 'line-groups', $ver: 1 });
+        expect(restore(optimizeLines(toLines(events), { envelope: true }))).toEqual(events);
+    });
+
+    it('should apply the optimize() options and reject those that pick a strategy', () => {
+        const rows = Array.from({ length: 40 }, (_, i) => ({ zeta: i, alpha: `name ${i}`, price: i * 1.23456 }));
+        expect(optimizeLines(toLines(rows), { deterministic: true }).$s).toEqual(['alpha', 'price', 'zeta']);
+        expect(optimizeLines(toLines(rows), { lossy: { roundNumbers: 3 } }).$d[3]).toEqual([3, 'name 3', 3.7]);
+        expect(optimizeLines(toLines(rows), { allowTextOutput: true })).toMatchObject({ $enc: 'tsv', $ver: 1 });
+        expect(restore(optimizeLines(toLines(rows), { allowTextOutput: true }))).toEqual(rows);
+
+        const budgeted = optimizeLines(toLines(events), { maxTokens: 300 });
+        expect(countTokens(budgeted)).toBeLessThanOrEqual(300);
+
+        expect(() => optimizeLines(toLines(rows), { selection: 'exhaustive' })).toThrow(TypeError);
+        expect(() => optimizeLines(toLines(rows), { aggressive: true, keyMap: { zeta: 'z' } })).toThrow('does not take aggressive, keyMap');
+    });
+
+    it('should explain groups and order to the model', () => {
+        const { strategy, text } = describeFormat(optimizeLines(toLines(events)));
+        expect(strategy).toBe('line-groups');
+        expect(text).toContain('"$o"');
+        expect(text).toContain('"$s"');
+    });
+
+    it('should group NDJSON in the CLI', async () => {
+        const out: string[] = [];
+        const io: CliIO = { stdout: text => out.push(text), stderr: () => undefined, readStdin: async () => toLines(events), readFile: async () => '' };
+        expect(await run(['optimize', '--ndjson'], io)).toBe(EXIT_OK);
+        expect(restore(JSON.parse(out.join('')))).toEqual(events);
+        expect(JSON.parse(out.join(''))).toHaveProperty('$o');
+    });
+});
@@ -0,0 +1,97 @@
+import { optimize, optimizeWithManifest, restore, TimestampGranularity } from '../src/index';
+
+describe('Lossy Transforms', () => {
+    it('should leave data untouched unless a transform is enabled', () => {
+        const data = { value: 3.14159265, at: '2024-06-01T10:31:45.123Z', note: null };
+        const { result, manifest } = optimizeWithManifest(data);
+        expect(manifest).toEqual([]);
+        expect(restore(result)).toEqual(data);
+    });
+
+    it('should round non-integer numbers to significant digits', () => {
+        const data = { readings: [{ id: 1001, value: 3.14159265 }, { id: 1002, value: 0.000123456 }] };
+        const { result, manifest } = optimizeWithManifest(data, { lossy: { roundNumbers: 3 } });
+
+        expect(restore(result)).toEqual({ readings: [{ id: 1001, value: 3.14 }, { id: 1002, value: 0.000123 }] });
+        expect(manifest).toEqual([
+            { transform: 'round-numbers', path: 'readings[0].value', original: 3.14159265, value: 3.14 },
+            { transform: 'round-numbers', path: 'readings[1].value', original: 0.000123456, value: 0.000123 }
+        ]);
+    });
+
+    it('should reject significant digits toPrecision cannot use', () => {
+        for (const roundNumbers of [0, 101, 2.5, NaN]) {
+            expect(() => optimizeWithManifest({ value: 1.5 }, { lossy: { roundNumbers } })).toThrow(/roundNumbers must be an integer from 1 to 100/);
+        }
+    });
+
+    it('should reject an unknown timestamp granularity', () => {
+        const timestampGranularity = 'week' as TimestampGranularity;
+        expect(() => optimizeWithManifest({ at: '2024-06-01T12:30:00Z' }, { lossy: { timestampGranularity } }))
+            .toThrow('timestampGranularity must be one of year, month, day, hour, minute, second, got "week"');
+    });
+
+    it('should keep dates when walking the data', () => {
+        const when = new Date(0);
+        expect(optimize({ when }, { lossy: {} })).toEqual({ when });
+        expect(JSON.stringify(optimize({ when, text: 'a  b' }, { lossy: { collapseWhitespace: true } }))).toBe('{"when":"1970-01-01T00:00:00.000Z","text":"a b"}');
+    });
+
+    it('should truncate ISO timestamps to the requested granularity', () => {
+        const data = {
+            created: '2024-06-01T10:31:45.123Z',
+            offset: '2024-06-01T10:31:45+02:00',
+            day: '2024-06-01',
+            text: 'not a timestamp'
+        };
+
+        expect(restore(optimize(data, { lossy: { timestampGranularity: 'minute' } }))).toEqual({
+            created: '2024-06-01T10:31Z',
+            offset: '2024-06-01T10:31+02:00',
+            day: '2024-06-01',
+            text: 'not a timestamp'
+        });
+        expect(restore(optimize(data, { lossy: { timestampGranularity: 'hour' } })).created).toBe('2024-06-01T10:00Z');
+        expect(restore(optimize(data, { lossy: { timestampGranularity: 'month' } })).day).toBe('2024-06');
+
+        const { manifest } = optimizeWithManifest(data, { lossy: { timestampGranularity: 'day' } });
+        expect(manifest.map(entry => entry.path)).toEqual(['created', 'offset']);
+    });
+
+    it('should drop null, empty-string and empty-array fields but keep array items', () => {
+        const data = { a: null, b: '', c: [], d: 0, e: false, f: {}, list: [null, '', 1] };
+        const { result, manifest } = optimizeWithManifest(data, { lossy: { dropEmpty: true } });
+
+        expect(restore(result)).toEqual({ d: 0, e: false, f: {}, list: [null, '', 1] });
+        expect(manifest).toEqual([
+            { transform: 'drop-empty', path: 'a', original: null },
+            { transform: 'drop-empty', path: 'b', original: '' },
+            { transform: 'drop-empty', path: 'c', original: [] }
+        ]);
+    });
+
+    it('should collapse whitespace inside strings', () => {
+        const data = { bio: '  Line one\n\n   line\ttwo  ', name: 'Alice' };
+        const { result, manifest } = optimizeWithManifest(data, { lossy: { collapseWhitespace: true } });
+
+        expect(restore(result)).toEqual({ bio: 'Line one line two', name: 'Alice' });
+        expect(manifest).toHaveLength(1);
+        expect(manifest[0]).toMatchObject({ transform: 'collapse-whitespace', path: 'bio' });
+    });
+
+    it('should combine transforms and still compress the result', () => {
+        const rows = Array.from({ length: 50 }, (_, i) => ({
+            id: i,
+            score: i / 7,
+            seen: `2024-06-01T10:${String(i % 60).padStart(2, '0')}:00Z`,
+            comment: i % 2 ? null : 'ok'
+        }));
+        const { result, manifest } = optimizeWithManifest(rows, {
+            lossy: { roundNumbers: 2, timestampGranularity: 'hour', dropEmpty: true }
+        });
+
+        expect(result).toHaveProperty('$s');
+        expect(restore(result)[1]).toEqual({ id: 1, score: 0.14, seen: '2024-06-01T10:00Z' });
+        expect(new Set(manifest.map(entry => entry.transform))).toEqual(new Set(['round-numbers', 'timestamp-granularity', 'drop-empty']));
+    });
+});
@@ -0,0 +1,105 @@
+import { optimizeMessages, restoreMessages, ChatMessage } from '../src/index';
+
+describe('Chat Messages', () => {
+    const records = Array.from({ length: 30 }, (_, i) => ({
+        id: i,
+        title: `Issue ${i}`,
+        state: i % 2 === 0 ? 'open' : 'closed',
+        assignee: `user${i % 5}`
+    }));
+
+    it('should optimize JSON in OpenAI tool results and leave roles, ids and text alone', () => {
+        const messages: ChatMessage[] = [
+            { role: 'system', content: 'You are a helpful assistant.' },
+            { role: 'user', content: 'List the open issues' },
+            {
+                role: 'assistant',
+                content: null,
+                tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'list_issues', arguments: '{"repo": "acme/app"}' } }]
+            },
+            { role: 'tool', tool_call_id: 'call_1', content: JSON.stringify(records, null, 2) }
+        ];
+
+        const { messages: optimized, savings, totalSavedTokens } = optimizeMessages(messages);
+
+        expect(optimized[0]).toBe(messages[0]);
+        expect(optimized[1]).toBe(messages[1]);
+        expect(optimized[3].role).toBe('tool');
+        expect(optimized[3].tool_call_id).toBe('call_1');
+        expect(JSON.parse(optimized[3].content as string)).toMatchObject({ $enc: 'schema-data-separation', $ver: 1 });
+
+        expect(savings).toHaveLength(4);
+        expect(savings[3].payloads).toBe(1);
+        expect(savings[3].savedTokens).toBeGreaterThan(0);
+        expect(savings[0].savedTokens).toBe(0);
+        expect(totalSavedTokens).toBe(savings.reduce((sum, s) => sum + s.savedTokens, 0));
+
+        const restored = restoreMessages(optimized);
+        expect(JSON.parse(restored[3].content as string)).toEqual(records);
+        expect(restored[2].tool_calls![0].function.arguments).toBe(optimized[2].tool_calls![0].function.arguments);
+    });
+
+    it('should optimize Anthropic tool_use inputs and tool_result content', () => {
+        const messages: ChatMessage[] = [
+            {
+                role: 'assistant',
+                content: [
+                    { type: 'text', text: 'Let me look that up.' },
+                    { type: 'tool_use', id: 'toolu_1', name: 'bulk_update', input: { records } }
+                ]
+            },
+            {
+                role: 'user',
+                content: [
+                    { type: 'tool_result', tool_use_id: 'toolu_1', content: JSON.stringify(records) },
+                    { type: 'tool_result', tool_use_id: 'toolu_2', content: [{ type: 'text', text: JSON.stringify({ records }) }] }
+                ]
+            }
+        ];
+
+        const { messages: optimized, savings } = optimizeMessages(messages, { thresholdBytes: 0 });
+        const assistantBlocks = optimized[0].content as any[];
+        const userBlocks = optimized[1].content as any[];
+
+        expect(assistantBlocks[0]).toBe((messages[0].content as any[])[0]);
+        expect(assistantBlocks[1].id).toBe('toolu_1');
+        expect(assistantBlocks[1].input).not.toEqual({ records });
+        expect(userBlocks[0].tool_use_id).toBe('toolu_1');
+        expect(savings[1].payloads).toBe(2);
+
+        const restored = restoreMessages(optimized);
+        expect((restored[0].content as any[])[1].input).toEqual({ records });
+        expect(JSON.parse((restored[1].content as any[])[0].content)).toEqual(records);
+        expect(JSON.parse((restored[1].content as any[])[1].content[0].text)).toEqual({ records });
+    });
+
+    it('should not treat plain text or invalid JSON as payloads', () => {
+        const messages: ChatMessage[] = [
+            { role: 'user', content: '{ this is not json }' },
+            { role: 'user', content: '42' },
+            { role: 'user', content: [{ type: 'image', source: { type: 'base64', data: 'AAAA' } }] }
+        ];
+
+        const { messages: optimized, savings } = optimizeMessages(messages, { thresholdBytes: 0 });
+        optimized.forEach((message, i) => expect(message).toBe(messages[i]));
+        expect(savings.every(s => s.payloads === 0)).toBe(true);
+        expect(restoreMessages(optimized)).toEqual(messages);
+    });
+
+    it('should leave JSON it did not rewrite alone, even when it looks compressed', () => {
+        const keyMapped = '{"m":{"x":"y"},"d":{"y":1}}';
+        const envelope = { $enc: 'minify', $ver: 1, $p: [1, 2] };
+        const messages: ChatMessage[] = [
+            { role: 'tool', tool_call_id: 'call_1', content: keyMapped },
+            { role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_1', name: 'lookup', input: envelope }] }
+        ];
+
+        const { messages: optimized } = optimizeMessages(messages);
+        expect(optimized[0]).toBe(messages[0]);
+        expect((optimized[1].content as any[])[0].input).toMatchObject({ $enc: 'minify', $p: envelope });
+
+        const restored = restoreMessages(optimized);
+        expect(restored[0].content).toBe(keyMapped);
+        expect((restored[1].content as any[])[0].input).toEqual(envelope);
+    });
+});
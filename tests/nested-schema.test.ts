@@ -0,0 +1,68 @@
+import { optimize, restore, SchemaDataSeparationStrategy } from '../src/index';
+import { MISSING_VALUE } from '../src/strategies';
+
+describe('Nested Schema Separation (flattenNested)', () => {
+    const orders = Array.from({ length: 20 }, (_, i) => ({
+        id: i,
+        customer: {
+            name: `Customer ${i}`,
+            address: { city: i % 2 === 0 ? 'Paris' : 'Berlin', zip: `${10000 + i}` }
+        },
+        total: i * 10.5,
+        lines: [
+            { sku: `SKU-${i}`, qty: 1, price: { amount: 5, currency: 'EUR' } },
+            { sku: `SKU-${i + 1}`, qty: 2, price: { amount: 7, currency: 'EUR' } }
+        ]
+    }));
+
+    const strategy = new SchemaDataSeparationStrategy({ flattenNested: true });
+
+    it('should turn uniform nested objects into sub-schemas', () => {
+        const compressed = strategy.compress(orders);
+        expect(compressed.$s).toEqual([
+            'id',
+            { customer: ['name', { address: ['city', 'zip'] }] },
+            'total',
+            'lines'
+        ]);
+        expect(compressed.$d[0].slice(0, 3)).toEqual([0, ['Customer 0', ['Paris', '10000']], 0]);
+        // Arrays inside rows are separated with their own sub-schemas
+        expect(compressed.$d[0][3].$s).toEqual(['sku', 'qty', { price: ['amount', 'currency'] }]);
+    });
+
+    it('should rebuild nested objects on decompress', () => {
+        expect(strategy.decompress(strategy.compress(orders))).toEqual(orders);
+        // The default strategy can decode nested sub-schemas too
+        expect(new SchemaDataSeparationStrategy().decompress(strategy.compress(orders))).toEqual(orders);
+    });
+
+    it('should keep non-uniform nested objects as plain values', () => {
+        const data = [
+            { id: 1, meta: { a: 1 } },
+            { id: 2, meta: { b: 2 } },
+            { id: 3, meta: null }
+        ];
+        const compressed = strategy.compress(data);
+        expect(compressed.$s).toEqual(['id', 'meta']);
+        expect(strategy.decompress(compressed)).toEqual(data);
+    });
+
+    it('should combine with optional keys', () => {
+        const data = [
+            { id: 1, address: { city: 'Paris', zip: '75001' } },
+            { id: 2 },
+            { id: 3, address: { city: 'Rome', zip: '00100' } }
+        ];
+        const compressed = strategy.compress(data);
+        expect(compressed.$s).toEqual(['id', { address: ['city', 'zip'] }]);
+        expect(compressed.$d[1]).toEqual([2, MISSING_VALUE]);
+        expect(strategy.decompress(compressed)).toEqual(data);
+    });
+
+    it('should be used by optimize() when flattenNested is set', () => {
+        const plain = optimize({ orders });
+        const nested = optimize({ orders }, { flattenNested: true });
+        expect(JSON.stringify(nested).length).toBeLessThan(JSON.stringify(plain).length);
+        expect(restore(nested)).toEqual({ orders });
+    });
+});
@@ -0,0 +1,81 @@
+import { optimize, restore, SchemaDataSeparationStrategy, NumericDecodeError } from '../src/index';
+import { encodeNumbers, decodeNumbers, isNumericEncoding, MAX_RANGE_VALUES } from '../src/numeric';
+import { TokenCounter } from '../src/tokenizer';
+
+describe('Numeric Encoding', () => {
+    const roundTrip = (values: number[]) => {
+        const encoded = encodeNumbers(values);
+        return Array.isArray(encoded) ? encoded : decodeNumbers(encoded);
+    };
+
+    it('should collapse runs into ranges', () => {
+        const values = Array.from({ length: 500 }, (_, i) => i + 1);
+        expect(encodeNumbers(values)).toEqual({ $r: [[1, 500]] });
+        expect(encodeNumbers([10, 9, 8, 7, 42, 1, 2, 3])).toEqual({ $r: [[10, 7], 42, [1, 3]] });
+        expect(roundTrip(values)).toEqual(values);
+    });
+
+    it('should use deltas or base offsets for timestamps', () => {
+        const timestamps = Array.from({ length: 50 }, (_, i) => 1718000000123 + i * 1000 + (i % 7));
+        const encoded = encodeNumbers(timestamps);
+        expect(isNumericEncoding(encoded)).toBe(true);
+        expect(TokenCounter.count(encoded)).toBeLessThan(TokenCounter.count(timestamps));
+        expect(roundTrip(timestamps)).toEqual(timestamps);
+    });
+
+    it('should round-trip floats and negative numbers exactly', () => {
+        const samples = [
+            [0.1, 0.2, 0.3, 0.4, 0.7, 1.1],
+            [-5, -4, -3, -2, -1, 0, 1],
+            [-1718000000.25, -1718000001.5, -1718000002.75, -1718000004],
+            [3.14159, -2.71828, 1e-7, 6.02e23, -0]
+        ];
+        for (const values of samples) {
+            expect(roundTrip(values)).toEqual(values);
+        }
+    });
+
+    it('should keep arrays that do not benefit as-is', () => {
+        const values = [7, 42, 3];
+        expect(encodeNumbers(values)).toBe(values);
+        expect(encodeNumbers([1, 'a', 3] as any)).toEqual([1, 'a', 3]);
+    });
+
+    it('should refuse ranges that expand too far', () => {
+        expect(() => restore({ $r: [[0, 1e10]] })).toThrow(NumericDecodeError);
+        expect(() => decodeNumbers({ $r: [[1, MAX_RANGE_VALUES], 0] })).toThrow(/more than 1000000 values/);
+        expect(() => decodeNumbers({ $r: [[0.5, 3]] })).toThrow(/not a pair of integers/);
+        expect(decodeNumbers({ $r: [[1, MAX_RANGE_VALUES]] })).toHaveLength(MAX_RANGE_VALUES);
+    });
+
+    describe('inside schema separation', () => {
+        const events = Array.from({ length: 40 }, (_, i) => ({
+            id: 100000 + i,
+            ts: 1718000000123 + i * 60000,
+            value: i % 5,
+            tags: [1, 2, 3, 4, 5, 6]
+        }));
+        const strategy = new SchemaDataSeparationStrategy({ numeric: true });
+
+        it('should encode number columns and record them in $n', () => {
+            const compressed = strategy.compress(events);
+            expect(compressed.$n).toBeDefined();
+            expect(compressed.$n.id).toBe('d');
+            expect(compressed.$d[1][0]).toBe(1);
+            expect(compressed.$d[0][3]).toEqual({ $r: [[1, 6]] });
+            expect(TokenCounter.count(compressed)).toBeLessThan(TokenCounter.count(new SchemaDataSeparationStrategy().compress(events)));
+        });
+
+        it('should restore numeric columns exactly', () => {
+            expect(strategy.decompress(strategy.compress(events))).toEqual(events);
+            expect(restore(strategy.compress(events))).toEqual(events);
+        });
+
+        it('should be opt-in through optimize()', () => {
+            expect(optimize(events)).not.toHaveProperty('$n');
+            const result = optimize(events, { numeric: true });
+            expect(result).toHaveProperty('$n');
+            expect(restore(result)).toEqual(events);
+        });
+    });
+});
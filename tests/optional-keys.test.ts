@@ -0,0 +1,59 @@
+import { optimize, restore, Analyzer, SchemaDataSeparationStrategy } from '../src/index';
+import { MISSING_VALUE } from '../src/strategies';
+
+describe('Schema Separation with Optional Keys', () => {
+    const issues = Array.from({ length: 30 }, (_, i) => {
+        const issue: any = { id: i, title: `Issue ${i}`, state: 'open', assignee: null };
+        if (i % 3 === 0) issue.milestone = `v${i}`;
+        if (i % 4 === 0) issue.labels = ['bug'];
+        return issue;
+    });
+
+    const strategy = new SchemaDataSeparationStrategy();
+
+    it('should use a union schema for records with sparse optional keys', () => {
+        const compressed = strategy.compress(issues);
+        expect(compressed.$s).toEqual(['id', 'title', 'state', 'assignee', 'milestone', 'labels']);
+        // Record 1 has neither milestone nor labels, record 0 has both
+        expect(compressed.$d[1]).toEqual([1, 'Issue 1', 'open', null, MISSING_VALUE, MISSING_VALUE]);
+        expect(compressed.$d[0]).toEqual([0, 'Issue 0', 'open', null, 'v0', ['bug']]);
+    });
+
+    it('should keep missing keys distinct from null on restore', () => {
+        const restored = strategy.decompress(strategy.compress(issues));
+        expect(restored).toEqual(issues);
+        expect(restored[1]).not.toHaveProperty('milestone');
+        expect(restored[1]).toHaveProperty('assignee', null);
+    });
+
+    it('should escape real values that look like the missing marker', () => {
+        const data = [
+            { a: '$u', b: '$$u' },
+            { a: 'x' }
+        ];
+        const compressed = strategy.compress(data);
+        expect(compressed.$d[0]).toEqual(['$$u', '$$$u']);
+        expect(strategy.decompress(compressed)).toEqual(data);
+    });
+
+    it('should not separate arrays that are mostly empty', () => {
+        const sparse = Array.from({ length: 10 }, (_, i) => ({ [`key_${i}`]: i }));
+        expect(Array.isArray(strategy.compress(sparse))).toBe(true);
+    });
+
+    it('should respect optionalKeys: false', () => {
+        const strict = new SchemaDataSeparationStrategy({ optionalKeys: false });
+        expect(Array.isArray(strict.compress(issues))).toBe(true);
+    });
+
+    it('should estimate savings for near-uniform arrays', () => {
+        const metrics = Analyzer.analyze(issues);
+        expect(metrics.estimatedSchemaSavings).toBeGreaterThan(50);
+    });
+
+    it('should round-trip through optimize()', () => {
+        const result = optimize({ issues });
+        expect(result.issues).toHaveProperty('$s');
+        expect(restore(result)).toEqual({ issues });
+    });
+});
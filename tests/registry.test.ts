@@ -0,0 +1,122 @@
+import {
+    optimize, optimizeWithReport, restore, detectFormat, registerStrategy, unregisterStrategy,
+    Optimizer, StrategyRegistry, StrategyRegistrationError, CompressionStrategy, StrategyDefinition, UnknownStrategyError
+} from '../src/index';
+
+// Domain encoder for event logs: [{ event_type, occurred_at, payload }] -> { $evt: [[type, at, payload], ...] }
+const FIELDS = ['event_type', 'occurred_at', 'payload'];
+
+const isEventLog = (data: any): boolean =>
+    Array.isArray(data) && data.length > 0 && data.every(item =>
+        item && typeof item === 'object' && Object.keys(item).join() === FIELDS.join());
+
+const eventTuples: CompressionStrategy = {
+    name: 'event-tuples',
+    compress: data => isEventLog(data) ? { $evt: data.map((item: any) => FIELDS.map(field => item[field])) } : data,
+    decompress: data => data.$evt.map((row: any[]) => Object.fromEntries(FIELDS.map((field, i) => [field, row[i]])))
+};
+
+const eventDefinition: StrategyDefinition = {
+    strategy: eventTuples,
+    lossless: true,
+    estimateSavings: data => isEventLog(data) ? data.length * FIELDS.join('""::,,').length : 0,
+    detect: payload => !!payload && typeof payload === 'object' && Object.keys(payload).join() === '$evt'
+};
+
+describe('Strategy Registry', () => {
+    const events = Array.from({ length: 40 }, (_, i) => ({
+        event_type: i % 2 ? 'page_view' : 'click',
+        occurred_at: 1718000000 + i,
+        payload: { path: `/p/${i}` }
+    }));
+
+    afterEach(() => {
+        unregisterStrategy('event-tuples');
+    });
+
+    it('should pick a registered strategy by its estimate and restore it by shape', () => {
+        registerStrategy(eventDefinition);
+
+        const result = optimize(events);
+        expect(result.$evt).toHaveLength(events.length);
+        expect(detectFormat(result)).toBe('event-tuples');
+        expect(restore(result)).toEqual(events);
+
+        const { report } = optimizeWithReport(events);
+        expect(report.rule).toBe('registered');
+        expect(report.candidates.find(candidate => candidate.strategy === 'event-tuples')).toMatchObject({
+            estimatedSavings: eventDefinition.estimateSavings!(events, report.metrics),
+            savedTokens: expect.any(Number)
+        });
+    });
+
+    it('should leave other data to the built-in strategies', () => {
+        registerStrategy(eventDefinition);
+        const users = Array.from({ length: 40 }, (_, i) => ({ user_id: i, display_name: `User ${i}` }));
+        expect(optimize(users)).toHaveProperty('$s');
+    });
+
+    it('should envelope the output of a strategy without a detector', () => {
+        registerStrategy({ ...eventDefinition, detect: undefined });
+
+        const result = optimize(events);
+        expect(result).toMatchObject({ $enc: 'event-tuples', $ver: 1 });
+        expect(restore(result, { strict: true })).toEqual(events);
+
+        unregisterStrategy('event-tuples');
+        expect(() => restore(result, { strict: true })).toThrow(UnknownStrategyError);
+    });
+
+    it('should only consider lossy strategies with unsafe', () => {
+        const lossy: CompressionStrategy = { ...eventTuples, name: 'event-tuples', compress: () => ({ $evt: [] }) };
+        registerStrategy({ strategy: lossy, lossless: false, detect: eventDefinition.detect });
+
+        expect(optimize(events, { selection: 'exhaustive', timeBudgetMs: Infinity })).not.toHaveProperty('$evt');
+        expect(optimize(events, { selection: 'exhaustive', timeBudgetMs: Infinity, unsafe: true })).toEqual({ $evt: [] });
+    });
+
+    it('should compete in exhaustive selection without an estimator', () => {
+        registerStrategy({ ...eventDefinition, estimateSavings: undefined });
+        expect(optimize(events)).not.toHaveProperty('$evt');
+        expect(optimize(events, { selection: 'exhaustive', deterministic: true })).toHaveProperty('$evt');
+    });
+
+    it('should envelope built-in output that a registered detector would claim', () => {
+        registerStrategy({ ...eventDefinition, detect: payload => !!payload && '$s' in payload });
+        const users = Array.from({ length: 40 }, (_, i) => ({ user_id: i, display_name: `User ${i}` }));
+
+        const result = optimize(users);
+        expect(result.$enc).toBe('schema-data-separation');
+        expect(restore(result)).toEqual(users);
+    });
+
+    it('should keep a private registry to its own optimizer', () => {
+        const registry = new StrategyRegistry([eventDefinition]);
+        const optimizer = new Optimizer(registry);
+
+        const result = optimizer.optimize(events);
+        expect(optimizer.getStrategy('event-tuples')).toBe(eventTuples);
+        expect(optimizer.getStrategy('csv')?.name).toBe('csv');
+        expect(new Optimizer().getStrategy('event-tuples')).toBeUndefined();
+
+        expect(restore(result, { registry })).toEqual(events);
+        expect(restore(result)).toEqual(result);
+    });
+
+    it('should reject invalid registrations', () => {
+        const registry = new StrategyRegistry([eventDefinition]);
+        const cases: [CompressionStrategy, RegExp][] = [
+            [{ ...eventTuples, name: '' }, /non-empty name/],
+            [{ ...eventTuples, name: 'schema-data-separation' }, /built-in strategy/],
+            [{ ...eventTuples, name: 'key-map' }, /built-in payload format/],
+            [{ ...eventTuples, name: 'envelope' }, /built-in payload format/],
+            [eventTuples, /already registered/]
+        ];
+        for (const [strategy, message] of cases) {
+            expect(() => registry.register({ strategy, lossless: true })).toThrow(StrategyRegistrationError);
+            expect(() => registry.register({ strategy, lossless: true })).toThrow(message);
+        }
+        expect(registry.unregister('event-tuples')).toBe(true);
+        expect(registry.list()).toEqual([]);
+    });
+});
@@ -0,0 +1,91 @@
+import { optimize, optimizeWithReport, optimizeWithBudget, restore } from '../src/index';
+import { countTokens } from '../src/tokenizer';
+
+describe('Optimize Report', () => {
+    const users = Array.from({ length: 40 }, (_, i) => ({
+        user_id: i,
+        display_name: `User ${i}`,
+        account_status: i % 2 ? 'active' : 'suspended'
+    }));
+
+    it('should match optimize() and describe the chosen strategy', () => {
+        const { result, report } = optimizeWithReport(users);
+        expect(result).toEqual(optimize(users));
+        expect(report).toMatchObject({
+            rule: 'schema-savings',
+            selected: 'schema-data-separation',
+            strategy: 'schema-data-separation',
+            reverted: false,
+            enveloped: false,
+            metrics: { estimatedSchemaSavings: expect.any(Number) },
+            input: { bytes: JSON.stringify(users).length, tokens: countTokens(users, 'cl100k_base') },
+            output: { bytes: JSON.stringify(result).length, tokens: countTokens(result, 'cl100k_base') }
+        });
+        expect(report.output.tokens).toBeLessThan(report.input.tokens);
+        expect(report.totalMs).toBeGreaterThanOrEqual(0);
+        expect(Object.keys(report.timings)).toEqual(['analyze', 'select', 'compress', 'validate', 'envelope']);
+    });
+
+    it('should list heuristic candidates with estimated and measured savings', () => {
+        const { result, report } = optimizeWithReport(users);
+        expect(report.candidates.map(candidate => candidate.strategy)).toEqual(['value-dictionary', 'schema-data-separation', 'abbreviated-keys']);
+
+        const schema = report.candidates.find(candidate => candidate.strategy === 'schema-data-separation')!;
+        expect(schema.estimatedSavings).toBe(report.metrics.estimatedSchemaSavings);
+        expect(schema.tokens).toBe(report.output.tokens);
+        expect(schema.savedBytes).toBe(report.input.bytes - JSON.stringify(result).length);
+        expect(schema.savedTokens).toBe(report.input.tokens - report.output.tokens);
+    });
+
+    it('should report the threshold path', () => {
+        const { result, report } = optimizeWithReport({ id: 1 });
+        expect(result).toEqual({ id: 1 });
+        expect(report).toMatchObject({ rule: 'below-threshold', selected: 'minify', strategy: 'minify', candidates: [] });
+        expect(report.input).toEqual(report.output);
+    });
+
+    it('should report when token validation reverted to the original', () => {
+        const { result, report } = optimizeWithReport({ a: 1, b: 2 }, { thresholdBytes: 0 });
+        expect(result).toEqual({ a: 1, b: 2 });
+        expect(report).toMatchObject({ selected: 'abbreviated-keys', strategy: 'minify', reverted: true });
+        expect(report.candidates.find(candidate => candidate.strategy === 'abbreviated-keys')!.savedTokens).toBeLessThan(0);
+    });
+
+    it('should list every measured candidate in exhaustive mode', () => {
+        const { report } = optimizeWithReport(users, { selection: 'exhaustive', deterministic: true, unsafe: true });
+        expect(report.rule).toBe('exhaustive');
+        expect(report.candidates).toHaveLength(5);
+        expect(report.candidates.every(candidate => candidate.estimatedSavings === undefined && !candidate.sampled)).toBe(true);
+
+        const fewest = Math.min(...report.candidates.map(candidate => candidate.tokens));
+        expect(report.candidates.find(candidate => candidate.strategy === report.selected)!.tokens).toBe(fewest);
+
+        const sampled = optimizeWithReport(users, { selection: 'exhaustive', deterministic: true, sampleThresholdBytes: 0, sampleSize: 5 });
+        expect(sampled.report.candidates.every(candidate => candidate.sampled)).toBe(true);
+    });
+
+    it('should report text outputs and envelopes', () => {
+        const { result, report } = optimizeWithReport(users, { allowTextOutput: true, envelope: true });
+        expect(report.candidates.map(candidate => candidate.strategy)).toEqual(expect.arrayContaining(['compact-text', 'csv', 'tsv', 'markdown-table']));
+        expect(report.timings['text-output']).toBeGreaterThanOrEqual(0);
+        expect(report.enveloped).toBe(true);
+        expect(result.$enc).toBe(report.strategy);
+        expect(report.selected).toBe('schema-data-separation');
+        expect(restore(result)).toEqual(users);
+    });
+
+    it('should describe the final pass under a token budget', () => {
+        const maxTokens = 200;
+        const { result, report } = optimizeWithReport(users, { maxTokens });
+        expect(result).toEqual(optimizeWithBudget(users, { maxTokens }).result);
+        expect(report.output.tokens).toBeLessThanOrEqual(maxTokens);
+        expect(report.input.bytes).toBeLessThan(JSON.stringify(users).length);
+        expect(report.timings.budget).toBeGreaterThanOrEqual(report.timings.analyze!);
+    });
+
+    it('should time lossy transforms', () => {
+        const { report } = optimizeWithReport(users, { lossy: { dropEmpty: true } });
+        expect(report.timings.lossy).toBeGreaterThanOrEqual(0);
+        expect(report.rule).toBe('schema-savings');
+    });
+});
@@ -0,0 +1,102 @@
+import { optimize, optimizeWithContext, restoreResponse, CompressionContext, AbbreviatedKeysStrategy, ValueDictionaryStrategy } from '../src/index';
+
+describe('Response Restore', () => {
+    const tickets = Array.from({ length: 30 }, (_, i) => ({
+        ticket_id: i,
+        customer_name: `Customer ${i}`,
+        priority_level: i % 3 === 0 ? 'high' : 'normal'
+    }));
+
+    describe('with a key map', () => {
+        const payload = new AbbreviatedKeysStrategy().compress({ customer_name: 'x', priority_level: 'y', nested: { ticket_id: 1 } });
+        const context = new CompressionContext(payload);
+        const short = payload.m;
+
+        it('should map short keys in a fenced answer back to the original keys', () => {
+            const answer = `Here is the escalated ticket:\n\`\`\`json\n{"${short.ticket_id}": 3, "${short.priority_level}": "high"}\n\`\`\`\nLet me know.`;
+            const { blocks, unknownKeys } = restoreResponse(answer, context);
+
+            expect(blocks).toEqual([{ value: { ticket_id: 3, priority_level: 'high' }, partial: false, inferred: false }]);
+            expect(unknownKeys).toEqual([]);
+        });
+
+        it('should keep original keys and report keys it does not know', () => {
+            const answer = `{"customer_name": "Ann", "${short.nested}": {"confidence": 0.9}}`;
+            const { blocks, unknownKeys } = restoreResponse(answer, context);
+
+            expect(blocks[0].value).toEqual({ customer_name: 'Ann', nested: { confidence: 0.9 } });
+            expect(unknownKeys).toEqual([{ block: 0, path: 'nested', key: 'confidence' }]);
+
+            const dropped = restoreResponse(answer, context, { dropUnknownKeys: true });
+            expect(dropped.blocks[0].value).toEqual({ customer_name: 'Ann', nested: {} });
+            expect(dropped.unknownKeys).toHaveLength(1);
+        });
+
+        it('should find several JSON blocks in prose', () => {
+            const answer = `First {"${short.ticket_id}": 1} and then [{"${short.ticket_id}": 2}] done.`;
+            const { blocks } = restoreResponse(answer, context);
+            expect(blocks.map(block => block.value)).toEqual([{ ticket_id: 1 }, [{ ticket_id: 2 }]]);
+        });
+
+        it('should keep scanning past an unclosed bracket in prose', () => {
+            const { blocks } = restoreResponse(`Sizes: [small, medium) and {"${short.ticket_id}": 3}`, context);
+            expect(blocks).toEqual([{ value: { ticket_id: 3 }, partial: false, inferred: false }]);
+        });
+    });
+
+    describe('with a schema', () => {
+        const { result, context } = optimizeWithContext(tickets);
+
+        it('should capture the schema of the payload', () => {
+            expect(result).toHaveProperty('$s');
+            expect(context.schemas).toEqual([['ticket_id', 'customer_name', 'priority_level']]);
+            expect(context.knownKeys).toEqual(new Set(['ticket_id', 'customer_name', 'priority_level']));
+        });
+
+        it('should restore echoed $d rows and $s/$d fragments', () => {
+            const rows = restoreResponse('```\n[[4, "Customer 4", "normal"], [6, "Customer 6", "high"]]\n```', context);
+            expect(rows.blocks[0]).toEqual({ value: [tickets[4], tickets[6]], partial: false, inferred: true });
+
+            const fragment = restoreResponse('{"$s": ["ticket_id", "priority_level"], "$d": [[9, "high"]]}', context);
+            expect(fragment.blocks[0]).toEqual({ value: [{ ticket_id: 9, priority_level: 'high' }], partial: false, inferred: false });
+        });
+
+        it('should only map a lone row when asked to', () => {
+            const answer = 'The ids are [4, 6, 9].';
+            expect(restoreResponse(answer, context)).toEqual({ blocks: [{ value: [4, 6, 9], partial: false, inferred: false }], unknownKeys: [] });
+            expect(restoreResponse(answer, context, { mapBareRows: true }).blocks[0]).toEqual({
+                value: { ticket_id: 4, customer_name: 6, priority_level: 9 }, partial: false, inferred: true
+            });
+        });
+
+        it('should restore a row that was cut off', () => {
+            const { blocks } = restoreResponse('The top ticket is [3, "Customer 3", "hi', context, { mapBareRows: true });
+            expect(blocks).toEqual([{ value: { ticket_id: 3, customer_name: 'Customer 3', priority_level: 'hi' }, partial: true, inferred: true }]);
+
+            const shorter = restoreResponse('```json\n[[3, "Customer 3"], [5,', context);
+            expect(shorter.blocks[0]).toEqual({ value: [{ ticket_id: 3, customer_name: 'Customer 3' }, { ticket_id: 5 }], partial: true, inferred: true });
+        });
+    });
+
+    it('should decode legend codes from a value dictionary', () => {
+        const statuses = Array.from({ length: 20 }, (_, i) => (i % 2 ? 'awaiting_customer_response' : 'escalated_to_engineering'));
+        const payload = new ValueDictionaryStrategy().compress({ statuses });
+        const context = new CompressionContext(payload);
+
+        const { blocks, unknownKeys } = restoreResponse('{"statuses": ["~1", "~0", "~7"]}', context);
+        expect(blocks[0].value).toEqual({ statuses: [payload.$l[1], payload.$l[0], '~7'] });
+        expect(unknownKeys).toEqual([]);
+    });
+
+    it('should read text output through the context format', () => {
+        const { result, context } = optimizeWithContext(tickets, { allowTextOutput: true });
+        expect(typeof result).toBe('string');
+        expect(context.knownKeys.has('customer_name')).toBe(true);
+        expect(restoreResponse('{"customer_name": "x"}', context).unknownKeys).toEqual([]);
+    });
+
+    it('should return no blocks for a plain text answer', () => {
+        const context = new CompressionContext(optimize(tickets));
+        expect(restoreResponse('There are 30 tickets.', context)).toEqual({ blocks: [], unknownKeys: [] });
+    });
+});
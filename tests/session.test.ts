@@ -0,0 +1,115 @@
+import { OptimizerSession, AbbreviatedKeysStrategy, isSessionPayload } from '../src/index';
+import { countTokens } from '../src/tokenizer';
+
+describe('Optimizer Session', () => {
+    // An agent loop: every turn returns a page of tickets with the same keys and statuses
+    const turnData = (turn: number) => Array.from({ length: 4 }, (_, i) => ({
+        ticket_id: turn * 10 + i,
+        customer_name: `Customer ${turn}-${i}`,
+        ticket_status: i % 2 ? 'awaiting_customer_response' : 'escalated_to_engineering',
+        ...(turn === 5 ? { assigned_engineer: 'Dana' } : {})
+    }));
+    const turns = Array.from({ length: 30 }, (_, turn) => turnData(turn));
+
+    it('should send each key and legend entry once', () => {
+        const session = new OptimizerSession();
+        const payloads = turns.map(data => session.optimize(data));
+
+        expect(payloads[0].m).toEqual(expect.objectContaining({ ticket_id: expect.any(String) }));
+        // Statuses repeat twice per turn: too few to intern at first, but they keep coming back
+        expect(payloads[0]).not.toHaveProperty('l');
+        expect(Object.values(payloads[1].l!).sort()).toEqual(['awaiting_customer_response', 'escalated_to_engineering']);
+        expect(payloads[1]).not.toHaveProperty('m');
+        expect(payloads[2]).not.toHaveProperty('m');
+        expect(payloads[2]).not.toHaveProperty('l');
+        expect(payloads[5].m).toEqual({ assigned_engineer: expect.any(String) });
+        expect(payloads.map(payload => payload.$turn)).toEqual(turns.map((_, i) => i + 1));
+        expect(payloads.every(isSessionPayload)).toBe(true);
+
+        payloads.forEach((payload, i) => expect(session.restore(payload)).toEqual(turns[i]));
+    });
+
+    it('should cost fewer tokens over a conversation than fresh key maps', () => {
+        const session = new OptimizerSession();
+        const abbreviated = new AbbreviatedKeysStrategy();
+        const sessionTokens = turns.reduce((sum, data) => sum + countTokens(session.optimize(data)), 0);
+        const freshTokens = turns.reduce((sum, data) => sum + countTokens(abbreviated.compress(data)), 0);
+        expect(sessionTokens).toBeLessThan(freshTokens * 0.85);
+    });
+
+    it('should number new legend entries after the existing ones', () => {
+        const session = new OptimizerSession();
+        session.optimize(turns[0]);
+        session.optimize(turns[1]);
+        const notes = Array.from({ length: 3 }, () => ({ note: 'follow_up_scheduled_next_week' }));
+        const later = session.optimize(notes);
+
+        expect(later.l).toEqual({ '~2': 'follow_up_scheduled_next_week' });
+        expect(session.toJSON().legend).toHaveLength(3);
+        expect(session.restore(later)).toEqual(notes);
+    });
+
+    it('should survive serialization and keep allocating fresh keys', () => {
+        const session = new OptimizerSession();
+        const first = session.optimize(turns[0]);
+
+        const revived = OptimizerSession.fromJSON(JSON.parse(JSON.stringify(session)));
+        expect(revived.toJSON()).toEqual(session.toJSON());
+        expect(revived.restore(first)).toEqual(turns[0]);
+
+        const next = revived.optimize([{ ticket_id: 1, resolution: 'fixed' }]);
+        expect(Object.values(next.m!)).toHaveLength(1);
+        expect(Object.values(first.m!)).not.toContain(next.m!.resolution);
+        expect(next.$turn).toBe(2);
+    });
+
+    it('should keep interning progress when rebuilt from its state', () => {
+        const uninterrupted = new OptimizerSession();
+        const saved = new OptimizerSession();
+        uninterrupted.optimize(turns[0]);
+        saved.optimize(turns[0]);
+
+        const revived = OptimizerSession.fromJSON(JSON.parse(JSON.stringify(saved)));
+        // The statuses were seen twice each in the first turn; the second turn interns them in both
+        expect(revived.optimize(turns[1])).toEqual(uninterrupted.optimize(turns[1]));
+    });
+
+    it('should let a receiving session restore turns it did not produce', () => {
+        const sender = new OptimizerSession();
+        const receiver = new OptimizerSession();
+        for (const data of turns.slice(0, 8)) {
+            expect(receiver.restore(JSON.parse(JSON.stringify(sender.optimize(data))))).toEqual(data);
+        }
+        // Only the sending session counts strings it has not interned yet
+        expect(receiver.toJSON()).toEqual({ ...sender.toJSON(), seen: [] });
+    });
+
+    it('should escape strings that look like legend codes and keep unusual keys', () => {
+        const session = new OptimizerSession();
+        const data = JSON.parse('{"__proto__": "~0", "list": ["~~1", "plain", "~0"]}');
+        const payload = session.optimize(data);
+        const restored = session.restore(JSON.parse(JSON.stringify(payload)));
+
+        expect(restored).toEqual(data);
+        expect(Object.getPrototypeOf(restored)).toBe(Object.prototype);
+        expect(Object.keys(restored)).toEqual(['__proto__', 'list']);
+    });
+
+    it('should reject a payload whose keys conflict with the session', () => {
+        const session = new OptimizerSession();
+        const payload = session.optimize({ alpha: 1 });
+        expect(() => session.restore({ ...payload, m: { beta: payload.m!.alpha } })).toThrow(/conflicts/);
+    });
+
+    it('should leave other data untouched', () => {
+        const session = new OptimizerSession({ legend: false });
+        expect(session.restore({ m: {}, d: 1 })).toEqual({ m: {}, d: 1 });
+        expect(session.optimize(['repeated value', 'repeated value', 'repeated value'])).toEqual({ $turn: 1, d: ['repeated value', 'repeated value', 'repeated value'] });
+    });
+
+    it('should serialize dates like JSON does', () => {
+        const session = new OptimizerSession();
+        const payload = JSON.parse(JSON.stringify(session.optimize({ created_at: new Date(0) })));
+        expect(session.restore(payload)).toEqual({ created_at: '1970-01-01T00:00:00.000Z' });
+    });
+});
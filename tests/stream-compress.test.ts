@@ -0,0 +1,113 @@
+import { Readable } from 'stream';
+import {
+    compressStream, createCompressStream, StreamingCompressor, StreamCompressError, restore, restoreStream,
+    optimize, describeFormat
+} from '../src/index';
+
+const collect = async (source: AsyncIterable<string>): Promise<string[]> => {
+    const chunks: string[] = [];
+    for await (const chunk of source) chunks.push(chunk);
+    return chunks;
+};
+
+// Byte chunks of a fixed size, so multi-byte characters get split
+const bytes = (text: string, size: number): Readable => {
+    const buffer = Buffer.from(text);
+    return Readable.from(Array.from({ length: Math.ceil(buffer.length / size) }, (_, i) => buffer.subarray(i * size, (i + 1) * size)));
+};
+
+describe('Streaming Compression', () => {
+    const records = Array.from({ length: 100 }, (_, i) => ({
+        order_id: 5000 + i,
+        customer: `Customer ${i % 9} – Zürich`,
+        status: i % 4 ? 'shipped' : 'pending',
+        ...(i % 10 ? {} : { refund_note: 'damaged "box"' }),
+        ...(i >= 60 ? { carrier: 'DHL' } : {})
+    }));
+
+    it('should write a JSON array as windowed schema blocks while reading', async () => {
+        const chunks = await collect(compressStream(bytes(JSON.stringify(records, null, 2), 97), { windowSize: 25 }));
+        expect(chunks.length).toBeGreaterThan(2);
+
+        const output = JSON.parse(chunks.join(''));
+        expect(output.$w).toHaveLength(4);
+        expect(output.$w[0]).toHaveProperty('$s');
+        // Windows have their own schemas: "carrier" only appears from row 60 on
+        expect(output.$w[0].$s).not.toContain('carrier');
+        expect(output.$w[3].$s).toContain('carrier');
+        expect(restore(output)).toEqual(records);
+        expect(JSON.stringify(output).length).toBeLessThan(JSON.stringify(records).length * 0.7);
+    });
+
+    it('should read JSON Lines', async () => {
+        const ndjson = records.map(record => JSON.stringify(record)).join('\r\n') + '\n\n';
+        const output = JSON.parse((await collect(compressStream(bytes(ndjson, 64), { windowSize: 30 }))).join(''));
+        expect(output.$w).toHaveLength(4);
+        expect(restore(output)).toEqual(records);
+
+        // One line is a plain document unless the format says JSON Lines
+        const single = JSON.stringify(records[0]);
+        expect(JSON.parse((await collect(compressStream([single]))).join(''))).toEqual(optimize(records[0]));
+        expect(restore(JSON.parse((await collect(compressStream([single], { format: 'ndjson' }))).join('')))).toEqual([records[0]]);
+        expect((await collect(compressStream([' \n'], { format: 'ndjson' }))).join('')).toBe('{"$w":[]}');
+    });
+
+    it('should emit each window as soon as it fills', () => {
+        const compressor = new StreamingCompressor({ windowSize: 10 });
+        const ndjson = records.map(record => JSON.stringify(record) + '\n').join('');
+
+        let written = compressor.write(ndjson.slice(0, ndjson.length / 2));
+        expect(written.startsWith('{"$w":[{"$s":')).toBe(true);
+        written += compressor.write(ndjson.slice(ndjson.length / 2));
+        written += compressor.end();
+
+        expect(compressor.stats).toMatchObject({ rows: 100, blocks: 10, inputChars: ndjson.length, outputChars: written.length });
+        expect(restore(JSON.parse(written))).toEqual(records);
+    });
+
+    it('should compress any other document whole', async () => {
+        const document = { report: 'weekly', orders: records.slice(0, 20) };
+        const output = JSON.parse((await collect(compressStream([JSON.stringify(document, null, 2)]))).join(''));
+        expect(output).toEqual(optimize(document));
+        expect(restore(output)).toEqual(document);
+    });
+
+    it('should restore windowed output as a stream of rows', async () => {
+        const output = (await collect(compressStream([JSON.stringify(records)], { windowSize: 16, numeric: true }))).join('');
+        const pieces = output.match(/[\s\S]{1,50}/g)!;
+
+        const rows: any[] = [];
+        for await (const row of restoreStream(pieces)) rows.push(row);
+        expect(rows).toEqual(records);
+        expect(describeFormat(JSON.parse(output)).text).toContain('"$w"');
+    });
+
+    it('should keep user keys and rows that look like markers', async () => {
+        const tricky = [{ $w: [1], $s: 'x' }, [1, 2], 'plain', { $w: [] }];
+        const output = JSON.parse((await collect(compressStream([JSON.stringify(tricky)], { windowSize: 2 }))).join(''));
+        expect(restore(output)).toEqual(tricky);
+        expect(restore(optimize({ $w: [{ a: 1 }] }, { thresholdBytes: 0 }))).toEqual({ $w: [{ a: 1 }] });
+    });
+
+    it('should pipe through a TransformStream', async () => {
+        const source = new ReadableStream<string>({
+            start(controller) {
+                controller.enqueue('[{"a":1},');
+                controller.enqueue('{"a":2}]');
+                controller.close();
+            }
+        });
+        const chunks = await collect(source.pipeThrough(createCompressStream()) as unknown as AsyncIterable<string>);
+        expect(restore(JSON.parse(chunks.join('')))).toEqual([{ a: 1 }, { a: 2 }]);
+    });
+
+    it('should reject malformed input', async () => {
+        const run = (text: string, options = {}) => collect(compressStream([text], options));
+        await expect(run('{"a":1}\n{"a":\n')).rejects.toThrow(/Line 2 is not valid JSON/);
+        await expect(run('[1, 2] trailing')).rejects.toThrow(StreamCompressError);
+        await expect(run('[1] [2]')).rejects.toThrow(/format "ndjson"/);
+        await expect(run('[1, 2')).rejects.toThrow(/ended inside/);
+        await expect(run('{"a": }', { format: 'json' })).rejects.toThrow(/not valid JSON/);
+        await expect(run('   ')).rejects.toThrow(/No JSON input/);
+    });
+});
@@ -0,0 +1,134 @@
+import {
+    restore, optimizeWithContext, StreamingRestorer, StreamRestoreError, restoreStream, createRestoreStream,
+    AbbreviatedKeysStrategy, SchemaDataSeparationStrategy, UltraCompactStrategy, ValueDictionaryStrategy
+} from '../src/index';
+import { wrapEnvelope } from '../src/envelope';
+
+const collect = (chunks: string[], restorer = new StreamingRestorer()): any[] => {
+    const items = chunks.flatMap(chunk => restorer.write(chunk));
+    restorer.end();
+    return items;
+};
+
+// Every way of cutting the text in two, plus fixed-size chunks
+const splits = (text: string): string[][] => [
+    ...Array.from({ length: text.length - 1 }, (_, i) => [text.slice(0, i + 1), text.slice(i + 1)]),
+    ...[1, 3, 7].map(size => text.match(new RegExp(`[\\s\\S]{1,${size}}`, 'g'))!)
+];
+
+describe('Streaming Restore', () => {
+    const events = Array.from({ length: 6 }, (_, i) => ({
+        event_id: 1000 + i,
+        event_type: i % 2 ? 'page_view' : 'click',
+        note: `say "hi" \\ ${i} é\u{1F600}`,
+        is_active: i % 3 === 0
+    }));
+
+    const payloads: [string, any][] = [
+        ['abbreviated keys', new AbbreviatedKeysStrategy().compress(events)],
+        ['ultra compact', new UltraCompactStrategy().compress(events)],
+        ['schema separation', new SchemaDataSeparationStrategy().compress(events)],
+        ['numeric columns', new SchemaDataSeparationStrategy({ numeric: true }).compress(events)],
+        ['value dictionary', new ValueDictionaryStrategy().compress(events)],
+        ['envelope', wrapEnvelope('abbreviated-keys', new AbbreviatedKeysStrategy().compress(events))],
+        ['nested list', new SchemaDataSeparationStrategy().compress([{ rows: events }, { rows: [] }])]
+    ];
+
+    it.each(payloads)('should restore %s items at any chunk boundary', (_, payload) => {
+        const text = JSON.stringify(payload);
+        const expected = restore(payload);
+        for (const chunks of splits(text)) {
+            expect(collect(chunks)).toEqual(expected);
+        }
+    });
+
+    it('should decode delta columns row by row', () => {
+        const payload = new SchemaDataSeparationStrategy({ numeric: true }).compress(events);
+        expect(Object.keys(payload)).toEqual(['$s', '$n', '$d']);
+        expect(collect([JSON.stringify(payload)]).map(item => item.event_id)).toEqual(events.map(event => event.event_id));
+    });
+
+    it('should emit each row as soon as it completes', () => {
+        const payload = new AbbreviatedKeysStrategy().compress(events);
+        const text = JSON.stringify(payload);
+        const firstRowEnd = text.indexOf('}', text.indexOf('"d":[')) + 1;
+
+        const restorer = new StreamingRestorer();
+        expect(restorer.write(text.slice(0, firstRowEnd - 1))).toEqual([]);
+        expect(restorer.write(text.slice(firstRowEnd - 1, firstRowEnd))).toEqual([restore(payload)[0]]);
+        expect(restorer.write(text.slice(firstRowEnd))).toEqual(restore(payload).slice(1));
+        restorer.end();
+    });
+
+    it('should emit other documents whole and skip text between them', () => {
+        const text = 'Sure:\n```json\n{"a": {"b": [1, 2]}, "c": null}\n```\nand [true, "x"]';
+        expect(collect([text])).toEqual([{ a: { b: [1, 2] }, c: null }, true, 'x']);
+    });
+
+    it('should skip brackets in prose that do not hold JSON', () => {
+        const answers: [string, any[]][] = [
+            ['Here are results [as requested]: {"a": 1}', [{ a: 1 }]],
+            ['Total: 5 items {see below} and [1, 2]', [1, 2]],
+            ['See [the {"x": [1]} list] or {"y" 2} {"z": "}"}', [{ x: [1] }, { z: '}' }]],
+            ['[x [y {"m": {"a": "b"}, "d": [{"b": 1}]}', [{ a: 1 }]]
+        ];
+        for (const [text, expected] of answers) {
+            for (const chunks of [[text], ...splits(text)]) {
+                expect(collect(chunks)).toEqual(expected);
+            }
+        }
+    });
+
+    it('should map a model answer through a compression context', () => {
+        const { context } = optimizeWithContext(events, { thresholdBytes: 0, aggressive: true, unsafe: true });
+        const short = new Map(Array.from(context.keyMap, ([s, original]) => [original, s]));
+        const answer = `[{"${short.get('event_id') ?? 'event_id'}": 7, "extra": 1}, {"${short.get('event_type') ?? 'event_type'}": "click"}]`;
+
+        const restorer = new StreamingRestorer({ context });
+        expect(collect(answer.split(''), restorer)).toEqual([{ event_id: 7, extra: 1 }, { event_type: 'click' }]);
+        expect(restorer.unknownKeys).toEqual([{ block: 0, path: '$', key: 'extra' }]);
+    });
+
+    it('should reassemble characters split across byte chunks', async () => {
+        const bytes = new TextEncoder().encode(JSON.stringify(new UltraCompactStrategy({ unsafe: true }).compress(events)));
+        const chunks = Array.from({ length: bytes.length }, (_, i) => bytes.subarray(i, i + 1));
+
+        const items: any[] = [];
+        for await (const item of restoreStream(chunks)) items.push(item);
+        expect(items).toEqual(events.map(event => ({ ...event, is_active: event.is_active ? 1 : 0 })));
+    });
+
+    it('should work as a TransformStream', async () => {
+        const text = JSON.stringify(new SchemaDataSeparationStrategy().compress(events));
+        const source = new ReadableStream<string>({
+            start(controller) {
+                for (let i = 0; i < text.length; i += 5) controller.enqueue(text.slice(i, i + 5));
+                controller.close();
+            }
+        });
+
+        const items: any[] = [];
+        const reader = source.pipeThrough(createRestoreStream()).getReader();
+        for (let next = await reader.read(); !next.done; next = await reader.read()) items.push(next.value);
+        expect(items).toEqual(events);
+    });
+
+    describe('errors', () => {
+        it('should reject malformed JSON once items were emitted', () => {
+            expect(() => collect(['[1, 2,]'])).toThrow(StreamRestoreError);
+            expect(() => collect(['[{"a": 1}, {"a" 1}]'])).toThrow(/Unexpected "1" at offset 16/);
+            expect(() => collect(['Note [x] [1, 01]'])).toThrow(/Invalid literal 01 at offset 15/);
+        });
+
+        it('should reject a stream that ends inside a document', () => {
+            expect(() => collect(['{"m": {}, "d": [{"a": "b'])).toThrow(/ended inside/);
+        });
+
+        it('should reject a document that breaks the format it announced', () => {
+            // `$n` after the rows cannot be applied to rows already emitted
+            const legacy = '{"$s": ["id"], "$d": [[1], [1]], "$n": {"id": "d"}}';
+            expect(() => collect([legacy])).toThrow(/schema-data-separation/);
+            expect(() => collect(['{"m": {"a": "b"}, "d": [{"b": 1}], "x": 2}'])).toThrow(StreamRestoreError);
+        });
+    });
+});
@@ -0,0 +1,105 @@
+import { optimize, restore, CsvStrategy, TsvStrategy, MarkdownTableStrategy, TableParseError, Optimizer, UnknownStrategyError, TextOutputFormat } from '../src/index';
+import { TokenCounter } from '../src/tokenizer';
+
+describe('Tabular Text Strategies', () => {
+    const strategies = [new CsvStrategy(), new TsvStrategy(), new MarkdownTableStrategy()];
+
+    const tricky = [
+        { id: 1, name: 'Alice', active: true, score: 9.5, note: null },
+        { id: -2, name: 'Smith, "Bob"', active: false, score: 1e21, note: '' },
+        { id: 3, name: 'line\nbreak\ttab', active: true, score: 0, note: '123' },
+        { id: 4, name: 'pipe | and \\ slash', active: false, score: -0.5, note: 'true' },
+        { id: 5, name: '  padded  ', active: true, score: 7, note: '"quoted"' },
+        { id: 6, name: 'null', active: false, score: 8, note: '1.0' }
+    ];
+
+    it.each(strategies.map(s => [s.name, s] as const))('%s should round-trip typed cells and awkward strings', (_name, strategy) => {
+        const text = strategy.compress(tricky);
+        expect(typeof text).toBe('string');
+        expect(strategy.decompress(text)).toEqual(tricky);
+        expect(restore(text, { format: strategy.name })).toEqual(tricky);
+    });
+
+    it('should keep awkward keys and single-column null rows', () => {
+        const data = [{ '': null }, { '': 'x' }, { '': null }];
+        const keys = [{ 'a,b': 1, '"q"': 2, '1': 3, 'p|q': 4 }];
+        for (const strategy of strategies) {
+            expect(strategy.decompress(strategy.compress(data))).toEqual(data);
+            expect(strategy.decompress(strategy.compress(keys))).toEqual(keys);
+        }
+    });
+
+    it('should render readable tables', () => {
+        const data = [{ id: 1, name: 'Alice' }, { id: 2, name: 'Bob' }];
+        expect(new CsvStrategy().compress(data)).toBe('id,name\n1,Alice\n2,Bob\n');
+        expect(new TsvStrategy().compress(data)).toBe('id\tname\n1\tAlice\n2\tBob\n');
+        expect(new MarkdownTableStrategy().compress(data)).toBe('| id | name |\n| --- | --- |\n| 1 | Alice |\n| 2 | Bob |');
+    });
+
+    it('should parse tables written by hand or by a model', () => {
+        expect(restore('id,name\r\n1,Alice\r\n2,"B ""x"""', { format: 'csv' })).toEqual([{ id: 1, name: 'Alice' }, { id: 2, name: 'B "x"' }]);
+        expect(restore('\n| id | name |\n|:--|--:|\n| 1 | Alice\n\n', { format: 'markdown-table' })).toEqual([{ id: 1, name: 'Alice' }]);
+    });
+
+    it('should pass non-tabular data through unchanged', () => {
+        const nested = [{ id: 1, tags: ['a'] }];
+        const mixed = [{ id: 1 }, { name: 'x' }];
+        for (const strategy of strategies) {
+            expect(strategy.compress(nested)).toBe(nested);
+            expect(strategy.compress(mixed)).toBe(mixed);
+            expect(strategy.compress({ id: 1 })).toEqual({ id: 1 });
+        }
+    });
+
+    it('should reject malformed tables', () => {
+        expect(() => restore('id,name\n1', { format: 'csv' })).toThrow(TableParseError);
+        expect(() => restore('id\n"open', { format: 'csv' })).toThrow(TableParseError);
+        expect(() => restore('| id |\n| 1 |', { format: 'markdown-table' })).toThrow(TableParseError);
+    });
+
+    it('should reject a format it has no decoder for', () => {
+        expect(() => restore('id,name\n1,a', { format: 'xlsx' as TextOutputFormat })).toThrow(UnknownStrategyError);
+        expect(() => restore('id,name\n1,a', { format: 'toString' as TextOutputFormat })).toThrow('Unknown compression strategy "toString"');
+    });
+
+    describe('Optimizer', () => {
+        const rows = Array.from({ length: 80 }, (_, i) => ({
+            id: i,
+            name: `User ${i}`,
+            role: i % 3 === 0 ? 'admin' : 'viewer',
+            active: i % 2 === 0
+        }));
+
+        it('should only return text when allowed', () => {
+            expect(optimize(rows)).not.toHaveProperty('$enc');
+
+            const { $p: text } = optimize(rows, { allowTextOutput: true });
+            expect(typeof text).toBe('string');
+            expect(TokenCounter.count(text)).toBeLessThan(TokenCounter.count(optimize(rows)));
+        });
+
+        it('should pick the cheapest text format and restore it via its name', () => {
+            const { $enc: format, $p: text } = optimize(rows, { allowTextOutput: true });
+            const optimizer = new Optimizer();
+            const costs = ['csv', 'tsv', 'markdown-table'].map(name => TokenCounter.count(optimizer.getStrategy(name)!.compress(rows)));
+            expect(TokenCounter.count(text)).toBe(Math.min(...costs));
+
+            expect(format).toBe(['csv', 'tsv', 'markdown-table'][costs.indexOf(Math.min(...costs))]);
+            expect(restore(text, { format })).toEqual(rows);
+        });
+
+        it('should always record the text format in an envelope', () => {
+            for (const envelope of [false, true]) {
+                const payload = optimize(rows, { allowTextOutput: true, envelope });
+                expect(['csv', 'tsv', 'markdown-table']).toContain(payload.$enc);
+                expect(typeof payload.$p).toBe('string');
+                expect(restore(payload)).toEqual(rows);
+            }
+        });
+
+        it('should keep JSON output for data that is not a flat table', () => {
+            const nested = rows.map(row => ({ ...row, meta: { a: 1 } }));
+            expect(typeof optimize(nested, { allowTextOutput: true })).toBe('object');
+        });
+    });
+});
@@ -0,0 +1,120 @@
+import { getEncoding } from 'js-tiktoken';
+import { countTokens, optimize, optimizeWithReport, TokenCountPool, TiktokenBackend } from '../src/index';
+import { seededRandom } from '../src/deterministic';
+
+const encoder = getEncoding('cl100k_base');
+const reference = (data: any) => encoder.encode(typeof data === 'string' ? data : JSON.stringify(data)).length;
+
+// Text with the boundaries the pre-tokenizer cares about: spaces, newlines, digits, punctuation, non-ASCII
+const WORDS = ['alpha', ' beta', 'Gamma', '12345', '-7', '3.25', '  ', '\n', '\r\n', '\t', '...', '"quoted"', "it's", 'café', '日本語', '🙂', '@x.io', '{}', 'a .', ''];
+
+function payload(seed: number): any {
+    const random = seededRandom(seed);
+    const pick = () => WORDS[Math.floor(random() * WORDS.length)];
+    const text = () => Array.from({ length: 1 + Math.floor(random() * 4) }, pick).join('');
+    const value = (level: number): any => {
+        const roll = random();
+        if (level > 2 || roll < 0.4) return text();
+        if (roll < 0.5) return Math.round((random() - 0.5) * 1e6) / 100;
+        if (roll < 0.55) return random() < 0.5 ? null : true;
+        if (roll < 0.75) return Array.from({ length: Math.floor(random() * 4) }, () => value(level + 1));
+        return Object.fromEntries(Array.from({ length: Math.floor(random() * 4) }, () => [text(), value(level + 1)]));
+    };
+    return Array.from({ length: 30 }, () => value(0));
+}
+
+describe('Token Counting', () => {
+    const records = Array.from({ length: 400 }, (_, i) => ({
+        id: i,
+        name: `User ${i}.`,
+        email: `user${i}@example.com`,
+        balance: -i * 1.5,
+        tags: ['vip', i % 2 ? 'new!' : ''],
+        note: i % 4 ? null : 'Called "twice"\nno answer',
+        created: new Date(Date.UTC(2024, 0, 1 + i))
+    }));
+
+    it('should match js-tiktoken exactly when counting piece by piece', () => {
+        for (let seed = 1; seed <= 20; seed++) {
+            const data = payload(seed);
+            expect(countTokens(data)).toBe(reference(data));
+            expect(countTokens(JSON.stringify(data, null, 2))).toBe(reference(JSON.stringify(data, null, 2)));
+        }
+        expect(countTokens(records, 'o200k_base')).toBe(getEncoding('o200k_base').encode(JSON.stringify(records)).length);
+    });
+
+    it('should count special token text as ordinary text', () => {
+        expect(countTokens('say <|endoftext|> twice')).toBe(encoder.encode('say <|endoftext|> twice', [], []).length);
+    });
+
+    it('should estimate without serializing and agree with exact counts', () => {
+        expect(countTokens(records, 'cl100k_base', { mode: 'estimate' })).toBe(reference(records));
+        for (let seed = 1; seed <= 20; seed++) {
+            const data = payload(seed);
+            const estimate = countTokens(data, 'cl100k_base', { mode: 'estimate' });
+            expect(Math.abs(estimate - reference(data)) / reference(data)).toBeLessThan(0.01);
+        }
+        // Strings are counted as raw text in both modes
+        expect(countTokens('plain text', 'cl100k_base', { mode: 'estimate' })).toBe(reference('plain text'));
+        expect(countTokens({ a: undefined, b: [undefined, () => 1] }, 'cl100k_base', { mode: 'estimate' })).toBe(reference({ b: [null, null] }));
+    });
+
+    it('should stop counting once the limit is exceeded', () => {
+        const full = countTokens(records);
+        for (const mode of ['exact', 'estimate'] as const) {
+            const partial = countTokens(records, 'cl100k_base', { mode, stopAbove: 100 });
+            expect(partial).toBeGreaterThan(100);
+            expect(partial).toBeLessThan(full / 10);
+            expect(countTokens(records, 'cl100k_base', { mode, stopAbove: full })).toBe(full);
+        }
+    });
+
+    it('should give the same optimizer results in both counting modes', () => {
+        const data = { records, small: { a: 1 } };
+        expect(optimize(data, { tokenCounting: 'estimate' })).toEqual(optimize(data));
+        expect(optimize({ a: 1 }, { thresholdBytes: 0, tokenCounting: 'estimate' })).toEqual({ a: 1 });
+
+        const { report } = optimizeWithReport(records, { allowTextOutput: true });
+        for (const candidate of report.candidates) {
+            expect(candidate.tokens).toBeGreaterThan(0);
+        }
+    });
+
+    describe('TokenCountPool', () => {
+        let pool: TokenCountPool;
+
+        beforeAll(() => {
+            pool = new TokenCountPool({ size: 2, chunkChars: 2000 });
+        });
+
+        afterAll(async () => {
+            await pool.close();
+        });
+
+        it('should split large inputs across workers and agree with exact counts', async () => {
+            const text = JSON.stringify(payload(7)).repeat(20) + '   \n\n  ' + JSON.stringify(records);
+            expect((pool.backend as TiktokenBackend).encoding).toBe('cl100k_base');
+            expect(await pool.count(text)).toBe(reference(text));
+
+            const counts = await Promise.all([records, payload(3), 'short text'].map(data => pool.count(data)));
+            expect(counts).toEqual([reference(records), reference(payload(3)), reference('short text')]);
+        });
+
+        it('should reject the counts of a worker that exits and carry on with a new one', async () => {
+            const single = new TokenCountPool({ size: 1, chunkChars: 2000 });
+            const text = JSON.stringify(records);
+            const counting = single.count(text);
+            await (single as any).workers[0].terminate();
+            await expect(counting).rejects.toThrow(/worker exited/);
+            expect(await single.count(text)).toBe(reference(text));
+            await single.close();
+        });
+
+        it('should count backends without a built-in encoding in the calling thread', async () => {
+            const ratio = new TokenCountPool({ tokenizer: 'claude-sonnet-4', chunkChars: 10 });
+            expect(await ratio.count(records)).toBe(countTokens(records, 'claude-sonnet-4'));
+            await ratio.close();
+            await expect(ratio.count('late')).rejects.toThrow(/closed/);
+        });
+    });
+});
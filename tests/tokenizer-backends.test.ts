@@ -0,0 +1,169 @@
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    countTokens, optimize, registerTokenizer, TokenizerRegistry, UnknownTokenizerError, RatioEstimator,
+    loadTiktokenFile, loadSentencePiece, TokenizerLoadError, defaultTokenizerRegistry
+} from '../src/index';
+
+describe('Tokenizer Backends', () => {
+    let dir: string;
+    const file = (name: string, content: string) => {
+        const path = join(dir, name);
+        writeFileSync(path, content);
+        return path;
+    };
+
+    beforeAll(() => {
+        dir = mkdtempSync(join(tmpdir(), 'tokenizers-'));
+    });
+
+    afterAll(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    describe('registry', () => {
+        it('should warn once for an unknown model and count with cl100k_base', () => {
+            const registry = new TokenizerRegistry();
+            const warn = jest.spyOn(process, 'emitWarning').mockImplementation(() => undefined);
+            try {
+                const backend = registry.resolve('llama-3-70b');
+                registry.resolve('llama-3-70b');
+                expect(warn).toHaveBeenCalledTimes(1);
+                expect(warn.mock.calls[0][0]).toContain('"llama-3-70b"');
+                expect(backend.count('hello world')).toBe(countTokens('hello world', 'cl100k_base'));
+            } finally {
+                warn.mockRestore();
+            }
+        });
+
+        it('should throw or stay silent depending on the policy', () => {
+            const registry = new TokenizerRegistry();
+            registry.onUnknown = 'error';
+            expect(() => registry.resolve('mistral-large')).toThrow(UnknownTokenizerError);
+
+            const warn = jest.spyOn(process, 'emitWarning').mockImplementation(() => undefined);
+            try {
+                registry.onUnknown = 'fallback';
+                expect(registry.resolve('mistral-large').name).toBe('cl100k_base');
+                expect(warn).not.toHaveBeenCalled();
+            } finally {
+                warn.mockRestore();
+            }
+        });
+
+        it('should resolve encodings, OpenAI models and registered patterns', () => {
+            const registry = new TokenizerRegistry();
+            expect(registry.resolve('o200k_base').name).toBe('o200k_base');
+            expect(registry.resolve('gpt-4o')).toBe(registry.resolve('o200k_base'));
+
+            let loads = 0;
+            registry.register(/^acme-/, () => {
+                loads++;
+                return { name: 'acme', count: text => text.length };
+            });
+            expect(registry.resolve('acme-1').count('abc')).toBe(3);
+            registry.resolve('acme-1');
+            expect(loads).toBe(1);
+
+            registry.register('acme-2', { name: 'exact', count: () => 1 });
+            expect(registry.resolve('acme-2').name).toBe('exact');
+            expect(registry.unregister('acme-2')).toBe(true);
+            expect(registry.resolve('acme-2').name).toBe('acme');
+        });
+
+        it('should count Claude models with the ratio estimator', () => {
+            expect(defaultTokenizerRegistry.resolve('claude-sonnet-4').name).toBe('claude');
+            const data = Array.from({ length: 40 }, (_, i) => ({ user_id: i, display_name: `User ${i}` }));
+            expect(optimize(data, { tokenizer: 'claude-sonnet-4' })).toHaveProperty('$s');
+        });
+
+        it('should accept a backend wherever a tokenizer is accepted', () => {
+            registerTokenizer('char-model', { name: 'chars', count: text => text.length });
+            try {
+                expect(countTokens({ a: 1 }, 'char-model')).toBe(7);
+                expect(countTokens('abcd', { name: 'half', count: text => text.length / 2 })).toBe(2);
+            } finally {
+                defaultTokenizerRegistry.unregister('char-model');
+            }
+        });
+    });
+
+    describe('RatioEstimator', () => {
+        it('should count word and other characters at separate rates', () => {
+            const estimator = new RatioEstimator('test', { wordCharsPerToken: 4, otherCharsPerToken: 2 });
+            expect(estimator.count('abcdefgh')).toBe(2);
+            expect(estimator.count('{"ab":1}')).toBe(Math.ceil(3 / 4 + 5 / 2));
+        });
+
+        it('should calibrate rates from known counts', () => {
+            const truth = new RatioEstimator('truth', { wordCharsPerToken: 5, otherCharsPerToken: 1.25 });
+            const samples = ['{"id":1,"name":"Ann"}', 'plain English sentence here', '[1, 2, 3, 4]', JSON.stringify({ long_key_name: 'value' })]
+                .map(text => ({ text, tokens: Array.from(text).filter(c => /[\p{L}\p{N}]/u.test(c)).length / 5 + Array.from(text).filter(c => !/[\p{L}\p{N}]/u.test(c)).length / 1.25 }));
+            const calibrated = RatioEstimator.calibrate('fitted', samples);
+            expect(calibrated.rates.wordCharsPerToken).toBeCloseTo(5);
+            expect(calibrated.rates.otherCharsPerToken).toBeCloseTo(1.25);
+            expect(calibrated.count('{"x": "hello"}')).toBe(truth.count('{"x": "hello"}'));
+
+            const shared = RatioEstimator.calibrate('shared', [{ text: 'abcd', tokens: 2 }]);
+            expect(shared.rates).toEqual({ wordCharsPerToken: 2, otherCharsPerToken: 2 });
+            expect(() => RatioEstimator.calibrate('empty', [])).toThrow(RangeError);
+        });
+    });
+
+    describe('vocabulary files', () => {
+        const b64 = (text: string) => Buffer.from(text).toString('base64');
+
+        it('should load a tiktoken rank file', () => {
+            const singles = Array.from({ length: 256 }, (_, i) => `${Buffer.from([i]).toString('base64')} ${i}`);
+            const path = file('tiny.tiktoken', [...singles, `${b64('ab')} 256`, `${b64('abab')} 257`, ''].join('\n'));
+
+            const backend = loadTiktokenFile(path, { name: 'tiny' });
+            expect(backend.name).toBe('tiny');
+            expect(backend.count('abab')).toBe(1);
+            expect(backend.count('abc')).toBe(2);
+            expect(backend.count('xyz')).toBe(3);
+
+            expect(() => loadTiktokenFile(file('bad.tiktoken', 'QQ== one\n'))).toThrow(/line 1 is not/);
+            expect(() => loadTiktokenFile(join(dir, 'missing.tiktoken'))).toThrow(TokenizerLoadError);
+        });
+
+        it('should segment a SentencePiece .vocab file by piece scores', () => {
+            const pieces = [['▁hello', -1], ['▁world', -1], ['▁', -2], ['h', -3], ['e', -3], ['l', -3], ['o', -3], ['w', -3], ['r', -3], ['d', -3], ['▁he', -2.5]];
+            const backend = loadSentencePiece(file('tiny.vocab', pieces.map(([piece, score]) => `${piece}\t${score}`).join('\n')));
+
+            expect(backend.count('hello world')).toBe(2);
+            expect(backend.count('hello held')).toBe(1 + 3);
+            // "é" is not in the vocabulary: one token per UTF-8 byte
+            expect(backend.count('hello é')).toBe(1 + 1 + 2);
+            expect(backend.count('')).toBe(0);
+        });
+
+        it('should apply merges from a tokenizer.json BPE model', () => {
+            const tokenizer = {
+                pre_tokenizer: null,
+                model: {
+                    type: 'BPE',
+                    vocab: { '▁': 0, h: 1, e: 2, l: 3, o: 4, '▁h': 5, el: 6, '▁hel': 7, lo: 8, '▁hello': 9 },
+                    merges: ['▁ h', 'e l', '▁h el', 'l o', '▁hel lo']
+                }
+            };
+            const backend = loadSentencePiece(file('tokenizer.json', JSON.stringify(tokenizer)), { name: 'tiny-bpe' });
+            expect(backend.count('hello')).toBe(1);
+            expect(backend.count('hello hello')).toBe(2);
+            expect(backend.count('hole')).toBe(4);
+            expect(backend.count('hé')).toBe(1 + 2);
+
+            const unigram = { model: { type: 'Unigram', vocab: [['▁', -2], ['▁hi', -1], ['h', -3], ['i', -3]] } };
+            expect(loadSentencePiece(file('unigram.json', JSON.stringify(unigram))).count('hi hi')).toBe(2);
+        });
+
+        it('should reject unsupported tokenizer files', () => {
+            const byteLevel = { pre_tokenizer: { type: 'ByteLevel' }, model: { type: 'BPE', vocab: {}, merges: [] } };
+            expect(() => loadSentencePiece(file('byte-level.json', JSON.stringify(byteLevel)))).toThrow(/loadTiktokenFile/);
+            expect(() => loadSentencePiece(file('wordpiece.json', '{"model":{"type":"WordPiece"}}'))).toThrow(/unsupported tokenizer model "WordPiece"/);
+            expect(() => loadSentencePiece(file('broken.json', '{"model":'))).toThrow(/not valid JSON/);
+            expect(() => loadSentencePiece(file('bad.vocab', 'piece-without-score\n'))).toThrow(TokenizerLoadError);
+        });
+    });
+});
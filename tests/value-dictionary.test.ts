@@ -0,0 +1,64 @@
+import { optimize, restore, Analyzer, ValueDictionaryStrategy } from '../src/index';
+import { TokenCounter } from '../src/tokenizer';
+
+describe('ValueDictionaryStrategy', () => {
+    const statuses = ['awaiting_customer_response', 'escalated_to_engineering_team', 'resolved_without_changes'];
+    const countries = ['United Kingdom of Great Britain and Northern Ireland', 'United States of America'];
+    const tickets = Array.from({ length: 60 }, (_, i) => ({
+        id: i,
+        status: statuses[i % statuses.length],
+        country: countries[i % countries.length],
+        subject: `Ticket number ${i}`
+    }));
+
+    const strategy = new ValueDictionaryStrategy();
+
+    it('should intern frequent long strings into a legend', () => {
+        const compressed = strategy.compress(tickets);
+        expect(compressed.$l).toEqual(expect.arrayContaining([...statuses, ...countries]));
+        // Unique subjects never pay off
+        expect(compressed.$l).not.toContain('Ticket number 0');
+        expect(compressed.$v[0].status).toMatch(/^~\d+$/);
+        expect(compressed.$v[0].subject).toBe('Ticket number 0');
+        expect(TokenCounter.count(compressed)).toBeLessThan(TokenCounter.count(tickets));
+    });
+
+    it('should restore original data exactly', () => {
+        expect(strategy.decompress(strategy.compress(tickets))).toEqual(tickets);
+        expect(restore(strategy.compress(tickets))).toEqual(tickets);
+    });
+
+    it('should only intern when token counts say it pays off', () => {
+        const data = { a: 'abc', b: 'abc', c: 'abc' };
+        expect(strategy.compress(data).$l).toEqual([]);
+    });
+
+    it('should use the configured tokenizer', () => {
+        const tokenizer = jest.fn((text: string) => text.length);
+        new ValueDictionaryStrategy({ tokenizer }).compress(tickets);
+        expect(tokenizer).toHaveBeenCalled();
+    });
+
+    it('should escape real strings that look like legend codes', () => {
+        const data = [
+            { code: '~0', ref: '~~1', status: statuses[0] },
+            { code: '~12', ref: 'x', status: statuses[0] },
+            { code: 'y', ref: 'z', status: statuses[0] }
+        ];
+        const compressed = strategy.compress(data);
+        expect(compressed.$v[0].code).toBe('~~0');
+        expect(compressed.$v[0].ref).toBe('~~~1');
+        expect(strategy.decompress(compressed)).toEqual(data);
+    });
+
+    it('should be considered by the Optimizer alongside key-based strategies', () => {
+        const data = {
+            summary: Object.fromEntries(Array.from({ length: 40 }, (_, i) => [`t${i}`, statuses[i % statuses.length]]))
+        };
+        expect(Analyzer.analyze(data).estimatedValueSavings).toBeGreaterThan(50);
+
+        const result = optimize(data);
+        expect(result).toHaveProperty('$l');
+        expect(restore(result)).toEqual(data);
+    });
+});